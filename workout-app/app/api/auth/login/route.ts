@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { isRecord } from '@/lib/schema';
+import { jsonError, readBody, withSessionCookie } from '@/lib/server/auth';
+import { createToken, verifyUser } from '@/lib/server/store';
+
+export async function POST(request: Request) {
+  const body = await readBody(request);
+  if (!isRecord(body) || typeof body.username !== 'string' || typeof body.password !== 'string') {
+    return jsonError(400, 'Expected { username, password }');
+  }
+  // same answer for unknown users and wrong passwords
+  const user = await verifyUser(body.username, body.password);
+  if (!user) return jsonError(401, 'Wrong username or password');
+  return withSessionCookie(NextResponse.json({ username: user.username }), await createToken(user.id));
+}
@@ -0,0 +1,12 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { SESSION_COOKIE } from '@/lib/server/auth';
+import { deleteToken } from '@/lib/server/store';
+
+export async function POST() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  if (token) await deleteToken(token);
+  const res = NextResponse.json({ ok: true });
+  res.cookies.delete(SESSION_COOKIE);
+  return res;
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { isRecord } from '@/lib/schema';
+import { MIN_PASSWORD_LENGTH, USERNAME_PATTERN, jsonError, readBody, withSessionCookie } from '@/lib/server/auth';
+import { createToken, createUser } from '@/lib/server/store';
+
+export async function POST(request: Request) {
+  const body = await readBody(request);
+  if (!isRecord(body) || typeof body.username !== 'string' || typeof body.password !== 'string') {
+    return jsonError(400, 'Expected { username, password }');
+  }
+  if (!USERNAME_PATTERN.test(body.username)) return jsonError(400, 'Username must be 3-32 letters, digits, dots, dashes or underscores');
+  if (body.password.length < MIN_PASSWORD_LENGTH) return jsonError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+
+  const user = await createUser(body.username, body.password);
+  if (!user) return jsonError(409, 'That username is taken');
+  return withSessionCookie(NextResponse.json({ username: user.username }, { status: 201 }), await createToken(user.id));
+}
@@ -0,0 +1,19 @@
+import crypto from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { validateAssignment } from '@/lib/schema';
+import type { AssignedWorkout } from '@/lib/types';
+import { asCoach, jsonError, readBody } from '@/lib/server/auth';
+import { updateCoaching } from '@/lib/server/store';
+
+// { dayName, dayId?, workout, note? } sets the athlete's next workout, replacing any not started yet; null withdraws it
+export const PUT = asCoach(async (coach, athlete, request) => {
+  const body = await readBody(request);
+  const errors: string[] = [];
+  if (body !== null) validateAssignment(body, 'assignment', errors);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  const fields = body as Pick<AssignedWorkout, 'dayName' | 'dayId' | 'workout' | 'note'> | null;
+  const assigned: AssignedWorkout | undefined = fields
+    ? { ...fields, id: crypto.randomUUID(), coach: coach.username, assignedAtISO: new Date().toISOString() }
+    : undefined;
+  return NextResponse.json(await updateCoaching(athlete.id, c => ({ ...c, assigned })));
+});
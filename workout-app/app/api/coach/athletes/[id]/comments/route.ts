@@ -0,0 +1,32 @@
+import crypto from 'node:crypto';
+import { NextResponse } from 'next/server';
+import { isRecord } from '@/lib/schema';
+import type { SessionComment } from '@/lib/types';
+import { asCoach, jsonError, readBody } from '@/lib/server/auth';
+import { loadCoaching, loadMigratedState, updateCoaching } from '@/lib/server/store';
+
+const MAX_COMMENT_LENGTH = 2000;
+
+// { sessionId, text }: a note the athlete sees with that session in Today's Program. The session must be
+// one of theirs or the workout assigned to them.
+export const POST = asCoach(async (coach, athlete, request) => {
+  const body = await readBody(request);
+  if (!isRecord(body) || typeof body.sessionId !== 'string' || typeof body.text !== 'string' || !body.text.trim()) {
+    return jsonError(400, 'Expected { sessionId, text }');
+  }
+  if (body.text.length > MAX_COMMENT_LENGTH) return jsonError(400, `Comments are limited to ${MAX_COMMENT_LENGTH} characters`);
+  const { sessionId } = body;
+  const [state, coaching] = await Promise.all([loadMigratedState(athlete.id), loadCoaching(athlete.id)]);
+  if (coaching.assigned?.id !== sessionId && !state?.history.some(h => h.id === sessionId)) {
+    return jsonError(404, `No session ${sessionId}`);
+  }
+  const comment: SessionComment = {
+    id: crypto.randomUUID(),
+    sessionId,
+    coach: coach.username,
+    text: body.text.trim(),
+    createdAtISO: new Date().toISOString(),
+  };
+  await updateCoaching(athlete.id, c => ({ ...c, comments: [...c.comments, comment] }));
+  return NextResponse.json(comment, { status: 201 });
+});
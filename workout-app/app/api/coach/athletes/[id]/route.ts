@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server';
+import { asCoach, jsonError } from '@/lib/server/auth';
+import { loadCoaching, loadMigratedState } from '@/lib/server/store';
+
+// One athlete's training as their coach sees it, migrated to the current schema; read-only apart from
+// assignments and comments
+export const GET = asCoach(async (_coach, athlete) => {
+  const state = await loadMigratedState(athlete.id);
+  if (!state) return jsonError(409, `${athlete.username}’s training data no longer loads`);
+  return NextResponse.json({ username: athlete.username, state, coaching: await loadCoaching(athlete.id) });
+});
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { athleteSummary } from '@/lib/coaching';
+import { parseStoredState } from '@/lib/storage';
+import { authed } from '@/lib/server/auth';
+import { athletesOf, loadUserState } from '@/lib/server/store';
+
+// The roster: everyone who has named the signed-in user as a coach, with how their training is going
+export const GET = authed(async userId => {
+  const nowISO = new Date().toISOString();
+  const athletes = await athletesOf(userId);
+  const roster = await Promise.all(athletes.map(async a => {
+    // stored state may predate the current schema; summarise what migrates, skip what doesn't
+    const parsed = parseStoredState(JSON.stringify(await loadUserState(a.id)));
+    const summary = parsed.ok ? athleteSummary(parsed.state, nowISO) : null;
+    return { id: a.id, username: a.username, summary };
+  }));
+  return NextResponse.json(roster.sort((a, b) => a.username.localeCompare(b.username)));
+});
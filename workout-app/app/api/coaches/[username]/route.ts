@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server';
+import { authed, jsonError } from '@/lib/server/auth';
+import { findUser, findUserById, updateCoachIds } from '@/lib/server/store';
+
+type Params = { params: Promise<{ username: string }> };
+
+// Revoke a coach's access; what they assigned or commented stays
+export const DELETE = authed(async (userId, _request: Request, { params }: Params) => {
+  const { username } = await params;
+  const coach = await findUser(username);
+  const athlete = coach && await updateCoachIds(userId, ids => ids.filter(id => id !== coach.id));
+  if (!athlete) return jsonError(404, `${username} is not one of your coaches`);
+  const coaches = await Promise.all((athlete.coachIds ?? []).map(findUserById));
+  return NextResponse.json(coaches.flatMap(c => (c ? [c.username] : [])));
+});
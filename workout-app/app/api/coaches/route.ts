@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { isRecord } from '@/lib/schema';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { findUser, findUserById, updateCoachIds } from '@/lib/server/store';
+
+async function coachNames(coachIds: string[]) {
+  const coaches = await Promise.all(coachIds.map(findUserById));
+  return coaches.flatMap(c => (c ? [c.username] : []));
+}
+
+// Usernames of the coaches this athlete has let in
+export const GET = authed(async userId => {
+  const user = await findUserById(userId);
+  if (!user) return jsonError(401, 'Account no longer exists');
+  return NextResponse.json(await coachNames(user.coachIds ?? []));
+});
+
+// { username }: let that account see this athlete's training, assign workouts and comment
+export const POST = authed(async (userId, request: Request) => {
+  const body = await readBody(request);
+  if (!isRecord(body) || typeof body.username !== 'string') return jsonError(400, 'Expected { username }');
+  const coach = await findUser(body.username);
+  if (!coach) return jsonError(404, `No account ${body.username}`);
+  if (coach.id === userId) return jsonError(400, 'You can’t coach yourself');
+  const athlete = await updateCoachIds(userId, ids => (ids.includes(coach.id) ? ids : [...ids, coach.id]));
+  if (!athlete) return jsonError(401, 'Account no longer exists');
+  return NextResponse.json(await coachNames(athlete.coachIds ?? []), { status: 201 });
+});
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import type { Coaching } from '@/lib/types';
+import { authed, jsonError } from '@/lib/server/auth';
+import { updateCoaching } from '@/lib/server/store';
+
+type Params = { params: Promise<{ id: string }> };
+
+// The athlete declines an assigned workout. Only that one: the coach may have assigned another since.
+export const DELETE = authed(async (userId, _request: Request, { params }: Params) => {
+  const { id } = await params;
+  let dismissed = false;
+  const coaching: Coaching = await updateCoaching(userId, c => {
+    dismissed = c.assigned?.id === id;
+    return dismissed ? { ...c, assigned: undefined } : c;
+  });
+  return dismissed ? NextResponse.json(coaching) : jsonError(404, `No assigned workout ${id}`);
+});
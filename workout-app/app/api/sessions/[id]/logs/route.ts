@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import { isRecord, validateSession } from '@/lib/schema';
+import { mergeLogs } from '@/lib/merge';
+import type { ExerciseLog, Session } from '@/lib/types';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { UNREADABLE_STATE, updateUserState } from '@/lib/server/store';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Just the logged sets, which is all that changes while training: { logs, base? }.
+// With a base, sets are merged field by field so edits from another device survive.
+export const PUT = authed(async (userId, request: Request, { params }: Params) => {
+  const { id } = await params;
+  const body = await readBody(request);
+  if (!isRecord(body) || !Array.isArray(body.logs) || (body.base !== undefined && !Array.isArray(body.base))) {
+    return jsonError(400, 'Expected { logs, base? } with lists of exercise logs');
+  }
+  const logs = body.logs as ExerciseLog[];
+  const base = body.base as ExerciseLog[] | undefined;
+
+  const errors: string[] = [];
+  let result: { session: Session; conflicts: string[] } | null = null;
+  const saved = await updateUserState(userId, s => {
+    const stored = s.history.find(h => h.id === id);
+    if (!stored) return s;
+    // check the logs in place so ids and set shapes are validated the same way as a full session
+    validateSession({ ...stored, logs }, 'session', errors);
+    if (base) validateSession({ ...stored, logs: base }, 'base', errors);
+    if (errors.length > 0) return s;
+    const merged = base
+      ? mergeLogs(stored.logs, base, logs, exId => stored.workout.find(ex => ex.id === exId)?.name ?? exId)
+      : { value: logs, conflicts: [] };
+    const session = { ...stored, logs: merged.value };
+    result = { session, conflicts: merged.conflicts };
+    return { ...s, history: s.history.map(h => (h.id === id ? session : h)) };
+  });
+  if (!saved) return jsonError(409, UNREADABLE_STATE);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  return result ? NextResponse.json(result) : jsonError(404, `No session ${id}`);
+});
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { isRecord, validateSession } from '@/lib/schema';
+import { mergeSession } from '@/lib/merge';
+import type { Session } from '@/lib/types';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { loadMigratedState, UNREADABLE_STATE, updateUserState } from '@/lib/server/store';
+
+type Params = { params: Promise<{ id: string }> };
+
+export const GET = authed(async (userId, _request: Request, { params }: Params) => {
+  const { id } = await params;
+  const state = await loadMigratedState(userId);
+  if (!state) return jsonError(409, UNREADABLE_STATE);
+  const session = state.history.find(h => h.id === id);
+  return session ? NextResponse.json(session) : jsonError(404, `No session ${id}`);
+});
+
+// { session, base? }. With a base, only the fields changed since it are applied; without, the session is replaced.
+export const PUT = authed(async (userId, request: Request, { params }: Params) => {
+  const { id } = await params;
+  const body = await readBody(request);
+  if (!isRecord(body)) return jsonError(400, 'Expected { session, base? }');
+  const errors: string[] = [];
+  validateSession(body.session, 'session', errors);
+  if (body.base !== undefined) validateSession(body.base, 'base', errors);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  const session = body.session as Session;
+  const base = body.base as Session | undefined;
+  if (session.id !== id) return jsonError(400, `Body is session ${session.id}, not ${id}`);
+
+  let result: { session: Session; conflicts: string[] } | null = null;
+  const saved = await updateUserState(userId, s => {
+    const stored = s.history.find(h => h.id === id);
+    if (!stored) return s;
+    const merged = base ? mergeSession(stored, base, session) : { value: session, conflicts: [] };
+    result = { session: merged.value, conflicts: merged.conflicts };
+    return { ...s, history: s.history.map(h => (h.id === id ? merged.value : h)) };
+  });
+  if (!saved) return jsonError(409, UNREADABLE_STATE);
+  return result ? NextResponse.json(result) : jsonError(404, `No session ${id}`);
+});
+
+export const DELETE = authed(async (userId, _request: Request, { params }: Params) => {
+  const { id } = await params;
+  let found = false;
+  const saved = await updateUserState(userId, s => {
+    found = s.history.some(h => h.id === id);
+    return { ...s, history: s.history.filter(h => h.id !== id) };
+  });
+  if (!saved) return jsonError(409, UNREADABLE_STATE);
+  return found ? NextResponse.json({ ok: true }) : jsonError(404, `No session ${id}`);
+});
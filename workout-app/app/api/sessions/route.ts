@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { validateSession } from '@/lib/schema';
+import type { Session } from '@/lib/types';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { loadMigratedState, UNREADABLE_STATE, updateUserState } from '@/lib/server/store';
+
+// Newest first, like the page keeps them
+export const GET = authed(async userId => {
+  const state = await loadMigratedState(userId);
+  return state ? NextResponse.json(state.history) : jsonError(409, UNREADABLE_STATE);
+});
+
+export const POST = authed(async (userId, request: Request) => {
+  const body = await readBody(request);
+  const errors: string[] = [];
+  validateSession(body, 'session', errors);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  const session = body as Session;
+
+  let duplicate = false;
+  const saved = await updateUserState(userId, s => {
+    duplicate = s.history.some(h => h.id === session.id);
+    return duplicate ? s : { ...s, history: [session, ...s.history] };
+  });
+  if (!saved) return jsonError(409, UNREADABLE_STATE);
+  if (duplicate) return jsonError(409, `Session ${session.id} already exists`);
+  return NextResponse.json(session, { status: 201 });
+});
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { validateSetup } from '@/lib/schema';
+import type { Setup } from '@/lib/types';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { loadMigratedState, UNREADABLE_STATE, updateUserState } from '@/lib/server/store';
+
+export const GET = authed(async userId => {
+  const state = await loadMigratedState(userId);
+  return state ? NextResponse.json(state.setup) : jsonError(409, UNREADABLE_STATE);
+});
+
+// null clears the profile, as a reset does
+export const PUT = authed(async (userId, request: Request) => {
+  const body = await readBody(request);
+  const errors: string[] = [];
+  if (body === undefined) errors.push('body is not JSON');
+  else validateSetup(body, errors);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  const setup = body as Setup | null;
+  if (!(await updateUserState(userId, s => ({ ...s, setup })))) return jsonError(409, UNREADABLE_STATE);
+  return NextResponse.json(setup);
+});
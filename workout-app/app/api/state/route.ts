@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { SCHEMA_VERSION, isRecord, validateState } from '@/lib/schema';
+import type { StoredState } from '@/lib/types';
+import { authed, jsonError, readBody } from '@/lib/server/auth';
+import { findUserById, loadCoaching, loadUserState, replaceUserState } from '@/lib/server/store';
+
+// Everything the page needs on load, including what coaches have assigned and commented
+export const GET = authed(async userId => {
+  const user = await findUserById(userId);
+  if (!user) return jsonError(401, 'Account no longer exists');
+  return NextResponse.json({ username: user.username, state: await loadUserState(userId), coaching: await loadCoaching(userId) });
+});
+
+// Wholesale replace: restores, resets, demo data and first-time uploads from the browser
+export const PUT = authed(async (userId, request: Request) => {
+  const body = await readBody(request);
+  if (!isRecord(body)) return jsonError(400, 'Expected { version, setup, history }');
+  if (body.version !== SCHEMA_VERSION) return jsonError(409, `Expected schema v${SCHEMA_VERSION}, got v${String(body.version)}; reload the page`);
+  const errors = validateState(body as StoredState);
+  if (errors.length > 0) return jsonError(400, errors.slice(0, 3).join('; '));
+  return NextResponse.json(await replaceUserState(userId, body as StoredState));
+});
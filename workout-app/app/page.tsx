@@ -1,231 +1,494 @@
 'use client';
 
-import React, { useEffect, useMemo, useState } from 'react';
-
-type LiftKey = 'bench' | 'squat' | 'deadlift' | 'ohp' | 'row';
-type DayType = 'Chest & Triceps' | 'Back & Biceps' | 'Legs' | 'Arms';
-
-type Setup = {
-  name?: string;
-  gender: string;
-  heightIn: number;
-  weightLb: number;
-  goal: 'Hypertrophy' | 'Strength' | 'Health';
-  fiveRM: Record<LiftKey, number>; // lbs
+import React, { useEffect, useEffectEvent, useMemo, useRef, useState } from 'react';
+import type {
+  AppState, Coaching, Equipment, Exercise, ExerciseLog, ExerciseTemplate, LiftKey, Mesocycle, PainFlag, PainSeverity,
+  PlannedSession, PlateConfig, ProgressionStrategyId, Session, SessionComment, SetLog, SetType, Setup, Split, SplitDay, StoredState,
+  Units, WarmupScheme,
+} from '@/lib/types';
+import { ALL_EQUIPMENT, isRecord, LIFT_KEYS, PAIN_SEVERITIES, SCHEMA_VERSION, SET_TYPES } from '@/lib/schema';
+import { sameValue } from '@/lib/merge';
+import { clamp, DAY_MS, formatDate, newestFirst, uid } from '@/lib/util';
+import { DEFAULT_PLATES, describePlates, displayWeight, formatWeight, fromLb, toLb } from '@/lib/units';
+import {
+  alternativesFor, CATALOG_BY_ID, EQUIPMENT_PROFILES, EXERCISE_CATALOG, exerciseFromCatalog, hasEquipment,
+} from '@/lib/catalog';
+import { SPLIT_PRESETS } from '@/lib/splits';
+import { DEFAULT_PROGRESSION, prescribeExercise, progressionHistory, PROGRESSION_STRATEGIES, withAdjustment } from '@/lib/progression';
+import {
+  BLOCK_LENGTHS, blockWeekLabel, movePlannedSession, nextPlannedSession, previewPlannedSession,
+  scheduleBlock, WEEKDAYS,
+} from '@/lib/block';
+import {
+  duplicateSession, emptySets, nextWorkoutDay, planBlockSession, planNextSession, planSession, setTarget,
+} from '@/lib/sessions';
+import { DEFAULT_WARMUP, formatWarmupSteps, parseWarmupSteps, WARMUP_PRESETS, warmupSets, withWarmups } from '@/lib/warmups';
+import { emptyState, parseStoredState, storedState } from '@/lib/storage';
+import {
+  commitImport, CUSTOM_EXERCISE, detectFormat, guessColumns, IMPORT_FIELDS, IMPORT_FORMATS, parseCSV, previewImport,
+  type ImportFormat, type ImportOptions,
+} from '@/lib/importers';
+import { sessionsToCSV, sessionsToICS } from '@/lib/exporters';
+import {
+  detectRepMaxPRs, e1RMHistory, weeklyVolume, type MuscleVolume, type RepMaxPR, type SeriesPoint,
+  type WeeklyVolume,
+} from '@/lib/analytics';
+import { bodyweightSeries, relativeStrength } from '@/lib/strength';
+import { EASE_BACK_DAYS, PAIN_AREAS, painFlagLabel, painFlagStatus } from '@/lib/pain';
+import {
+  appliedBaselines, applyRetest, liftsInSplit, planRetestSession, proposeBaselines, recordSetupBaselines, RETEST_INTERVALS_WEEKS,
+  retestDue, type BaselineProposal,
+} from '@/lib/baselines';
+import { simulateHistory, SIMULATED_ATHLETES } from '@/lib/simulate';
+import { commentsFor, pendingAssignment, sessionFromAssignment, type AthleteSummary } from '@/lib/coaching';
+import { applyGoal, DEFAULT_REST_SEC, DEFAULT_SESSION_MINUTES, estimateWorkoutMinutes, GOAL_SCHEMES, SESSION_MINUTES } from '@/lib/goals';
+
+// corrupt: failed to load; reset/replaced: deliberately overwritten by the user
+type QuarantineKind = 'corrupt' | 'reset' | 'replaced';
+
+type QuarantineEntry = { key: string; kind: QuarantineKind; dateISO: string; reason: string; raw: string };
+
+// A CSV being checked before import; nothing is added to the history until it's confirmed
+type PendingImport = {
+  fileName: string;
+  text: string;
+  headers: string[];
+  options: ImportOptions;
+  includeDuplicates: boolean;
 };
 
-type Exercise = {
-  id: string;
-  name: string;
-  primary: LiftKey | 'accessory';
-  muscleGroups: string[];
-  sets: number;
-  reps: string; // e.g. "8-10"
-  targetWeightLb?: number;
-  notes?: string;
-};
+// Where data lived before accounts. The key name predates schema versioning; the version lives inside the payload.
+const LS_KEY = 'workout_mvp_v1';
 
-type ExerciseLog = {
-  exerciseId: string;
-  actualWeightLb?: number;
-  actualReps?: string; // e.g. "10,9,8"
-  rpe?: number; // 1-10
-  notes?: string;
-};
+const LS_QUARANTINE_PREFIX = 'workout_mvp_quarantine:';
 
-type Session = {
-  id: string;
-  dateISO: string;
-  dayType: DayType;
-  muscleGroups: string[];
-  energy: number; // 1-5
-  difficulty: number; // 1-5
-  sleepHours?: number;
-  workout: Exercise[];
-  logs: ExerciseLog[];
-};
+// Keep the unreadable payload under its own key so nothing is lost when we fall back to empty state.
+function quarantineRaw(raw: string, kind: QuarantineKind, reason: string): QuarantineEntry {
+  const dateISO = new Date().toISOString();
+  const entry: QuarantineEntry = { key: `${LS_QUARANTINE_PREFIX}${dateISO}`, kind, dateISO, reason, raw };
+  window.localStorage.setItem(entry.key, JSON.stringify(entry));
+  return entry;
+}
 
-const LS_KEY = 'workout_mvp_v1';
+function listQuarantine(): QuarantineEntry[] {
+  if (typeof window === 'undefined') return [];
+  const entries: QuarantineEntry[] = [];
+  for (let i = 0; i < window.localStorage.length; i++) {
+    const key = window.localStorage.key(i);
+    if (!key?.startsWith(LS_QUARANTINE_PREFIX)) continue;
+    try {
+      entries.push(JSON.parse(window.localStorage.getItem(key) ?? ''));
+    } catch {
+      // entry itself is unreadable; leave it in place for manual recovery
+    }
+  }
+  return entries.sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+}
+
+// Data this browser saved before accounts existed, if any. Unreadable data is set aside and cleared.
+function loadLocalState(): AppState | null {
+  if (typeof window === 'undefined') return null;
+  const raw = window.localStorage.getItem(LS_KEY);
+  if (!raw) return null;
+  const result = parseStoredState(raw);
+  if (result.ok) return result.state;
+  quarantineRaw(raw, 'corrupt', result.reason);
+  window.localStorage.removeItem(LS_KEY);
+  return null;
+}
 
-function uid(prefix = 'id') {
-  return `${prefix}_${Math.random().toString(16).slice(2)}_${Date.now()}`;
+// JSON in, JSON out; failures throw with the server's `error` message
+async function api<T>(path: string, method = 'GET', body?: unknown): Promise<T> {
+  const res = await fetch(path, {
+    method,
+    headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(isRecord(data) && typeof data.error === 'string' ? data.error : `${method} ${path} failed (${res.status})`);
+  return data as T;
 }
 
-// Estimate 1RM from 5RM (Epley-ish). This is a practical approximation.
-function estimate1RMFrom5RM(fiveRM: number) {
-  // Epley: 1RM = w * (1 + reps/30) => reps=5 => w*1.1667
-  return fiveRM * (1 + 5 / 30);
+// fetch only rejects when the request never reached the server
+function isOffline(e: unknown) {
+  return e instanceof TypeError;
 }
 
-// Training max to keep progression sustainable
-function trainingMax(oneRM: number) {
-  return oneRM * 0.9;
+// Writes waiting for the server, oldest first, per athlete. Kept in localStorage so edits made
+// without a connection survive reloads and replay in order once it's back.
+const LS_SYNC_QUEUE_PREFIX = 'flex_sync_queue:';
+
+// The last signed-in athlete's state, so the app still opens without a connection
+const LS_OFFLINE_COPY = 'flex_offline_copy';
+
+type SyncOp = {
+  method: 'PUT' | 'POST' | 'DELETE';
+  path: string;
+  body?: unknown;
+  label: string; // what the user would call it, for notices
+};
+
+function readQueue(username: string): SyncOp[] {
+  try {
+    const ops = JSON.parse(window.localStorage.getItem(`${LS_SYNC_QUEUE_PREFIX}${username}`) ?? '[]');
+    return Array.isArray(ops) ? ops : [];
+  } catch {
+    return [];
+  }
 }
 
-// Round to nearest 2.5 lb (or 5 if you prefer)
-function roundTo2_5(x: number) {
-  return Math.round(x / 2.5) * 2.5;
+function writeQueue(username: string, ops: SyncOp[]) {
+  const key = `${LS_SYNC_QUEUE_PREFIX}${username}`;
+  if (ops.length === 0) window.localStorage.removeItem(key);
+  else window.localStorage.setItem(key, JSON.stringify(ops));
 }
 
-function clamp(n: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, n));
+function saveOfflineCopy(username: string, state: AppState) {
+  window.localStorage.setItem(LS_OFFLINE_COPY, JSON.stringify({ username, state: storedState(state) }));
 }
 
-function formatDate(iso: string) {
-  const d = new Date(iso);
-  return d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
-}
-
-function pickNextDayType(history: Session[]): DayType {
-  const recent = history.slice(0, 4).map(h => h.dayType);
-const order: DayType[] = ['Chest & Triceps', 'Back & Biceps', 'Legs', 'Arms'];
-
-  // pick the first day type not seen recently; else rotate by last
-  for (const dt of order) {
-    if (!recent.includes(dt)) return dt;
-  }
-  const last = history[0]?.dayType;
-  if (!last) return 'Chest & Triceps';
-  const idx = order.indexOf(last);
-  return order[(idx + 1) % order.length];
-}
-
-function baseWorkoutTemplate(dayType: DayType): Exercise[] {
-  // ~5 exercises; big lift + secondary + 3 accessories
-  if (dayType === 'Chest & Triceps') {
-    return [
-      { id: uid('ex'), name: 'Barbell Bench Press', primary: 'bench', muscleGroups: ['Chest', 'Triceps', 'Shoulders'], sets: 4, reps: '6-10' },
-      { id: uid('ex'), name: 'Incline Dumbbell Press', primary: 'accessory', muscleGroups: ['Chest'], sets: 3, reps: '8-12' },
-      { id: uid('ex'), name: 'Dips (Assisted if needed)', primary: 'accessory', muscleGroups: ['Chest', 'Triceps'], sets: 3, reps: '6-12' },
-      { id: uid('ex'), name: 'Triceps Rope Pushdown', primary: 'accessory', muscleGroups: ['Triceps'], sets: 3, reps: '10-15' },
-      { id: uid('ex'), name: 'Overhead Triceps Extension', primary: 'accessory', muscleGroups: ['Triceps'], sets: 3, reps: '10-15' },
-    ];
-  }
-
-  if (dayType === 'Back & Biceps') {
-    return [
-      { id: uid('ex'), name: 'Barbell Row', primary: 'row', muscleGroups: ['Back', 'Biceps'], sets: 4, reps: '6-10' },
-      { id: uid('ex'), name: 'Pull-Ups / Lat Pulldown', primary: 'accessory', muscleGroups: ['Back'], sets: 3, reps: '6-12' },
-      { id: uid('ex'), name: 'Seated Cable Row', primary: 'accessory', muscleGroups: ['Back'], sets: 3, reps: '8-12' },
-      { id: uid('ex'), name: 'Face Pulls', primary: 'accessory', muscleGroups: ['Rear Delts', 'Upper Back'], sets: 3, reps: '12-15' },
-      { id: uid('ex'), name: 'Dumbbell Curls', primary: 'accessory', muscleGroups: ['Biceps'], sets: 3, reps: '10-15' },
-    ];
-  }
-
-  if (dayType === 'Legs') {
-    return [
-      { id: uid('ex'), name: 'Back Squat', primary: 'squat', muscleGroups: ['Quads', 'Glutes'], sets: 4, reps: '5-8' },
-      { id: uid('ex'), name: 'Romanian Deadlift', primary: 'accessory', muscleGroups: ['Hamstrings', 'Glutes'], sets: 3, reps: '6-10' },
-      { id: uid('ex'), name: 'Leg Press', primary: 'accessory', muscleGroups: ['Quads'], sets: 3, reps: '10-15' },
-      { id: uid('ex'), name: 'Hamstring Curl', primary: 'accessory', muscleGroups: ['Hamstrings'], sets: 3, reps: '10-15' },
-      { id: uid('ex'), name: 'Calf Raises', primary: 'accessory', muscleGroups: ['Calves'], sets: 3, reps: '12-20' },
-    ];
-  }
-
-  // Arms day = Shoulders + Biceps + Triceps
-  return [
-    { id: uid('ex'), name: 'Overhead Press', primary: 'ohp', muscleGroups: ['Shoulders', 'Triceps'], sets: 4, reps: '6-10' },
-    { id: uid('ex'), name: 'Lateral Raises', primary: 'accessory', muscleGroups: ['Shoulders'], sets: 3, reps: '12-15' },
-    { id: uid('ex'), name: 'Incline Dumbbell Curls', primary: 'accessory', muscleGroups: ['Biceps'], sets: 3, reps: '10-15' },
-    { id: uid('ex'), name: 'Skull Crushers', primary: 'accessory', muscleGroups: ['Triceps'], sets: 3, reps: '8-12' },
-    { id: uid('ex'), name: 'Hammer Curls', primary: 'accessory', muscleGroups: ['Biceps', 'Forearms'], sets: 3, reps: '10-15' },
-  ];
-}
-
-
-function findLastLiftPerformance(history: Session[], lift: LiftKey) {
-  for (const s of history) {
-    for (const ex of s.workout) {
-      if (ex.primary === lift && ex.targetWeightLb) {
-        // get associated log if present
-        const log = s.logs.find(l => l.exerciseId === ex.id);
-        return { session: s, exercise: ex, log };
-      }
-    }
+function loadOfflineCopy(): { username: string; state: AppState } | null {
+  const raw = window.localStorage.getItem(LS_OFFLINE_COPY);
+  if (!raw) return null;
+  try {
+    const { username, state } = JSON.parse(raw);
+    const result = parseStoredState(JSON.stringify(state));
+    return typeof username === 'string' && result.ok ? { username, state: result.state } : null;
+  } catch {
+    return null;
   }
-  return null;
 }
 
-function computeTargetWeightLb(args: {
-  setup: Setup;
-  history: Session[];
-  lift: LiftKey;
-  dayType: DayType;
-}) {
-  const { setup, history, lift, dayType } = args;
+// More changed sessions than this and the whole state is sent in one request (restores, demo data, resets)
+const BULK_SYNC_THRESHOLD = 20;
+
+function sessionPath(id: string) {
+  return `/api/sessions/${encodeURIComponent(id)}`;
+}
 
-  const oneRM = estimate1RMFrom5RM(setup.fiveRM[lift] || 0);
-  const tMax = trainingMax(oneRM);
+function sessionLabel(s: Session) {
+  return `${s.dayType} on ${formatDate(s.dateISO)}`;
+}
 
-  // Base intensity by goal/day type
-  // Hypertrophy: 65–75% TM; Strength: 75–85% TM; Health: 60–70% TM
-  const basePct =
-    setup.goal === 'Strength' ? 0.8 :
-    setup.goal === 'Health' ? 0.65 :
-    0.7;
+// Logging a set only replaces `logs`; every other field keeps its identity
+function onlyLogsChanged(a: Session, b: Session) {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)]) as Set<keyof Session>;
+  return [...keys].every(k => k === 'logs' || a[k] === b[k]);
+}
 
-  // Full day: reduce intensity a bit
-  const dayAdjust = 0;
-  let target = tMax * (basePct + dayAdjust);
+// The writes that take the server from `prev` to `next`. Updates are immutable, so untouched sessions
+// are the same objects. Edits carry what they were based on so the server can merge them field by
+// field with changes from other devices. A null `prev` means the server's copy is unknown and gets replaced.
+function diffOps(prev: AppState | null, next: AppState): SyncOp[] {
+  const before = new Map((prev?.history ?? []).map(h => [h.id, h]));
+  const after = new Set(next.history.map(h => h.id));
+  const changed = next.history.filter(h => before.get(h.id) !== h);
+  const removed = (prev?.history ?? []).filter(h => !after.has(h.id));
+
+  if (!prev || changed.length + removed.length > BULK_SYNC_THRESHOLD) {
+    return [{ method: 'PUT', path: '/api/state', body: storedState(next), label: 'All data' }];
+  }
+  const ops: SyncOp[] = [];
+  if (prev.setup !== next.setup) ops.push({ method: 'PUT', path: '/api/setup', body: next.setup, label: 'Setup' });
+  for (const s of removed) ops.push({ method: 'DELETE', path: sessionPath(s.id), label: sessionLabel(s) });
+  for (const s of changed) {
+    const old = before.get(s.id);
+    if (!old) ops.push({ method: 'POST', path: '/api/sessions', body: s, label: sessionLabel(s) });
+    else if (onlyLogsChanged(old, s)) ops.push({ method: 'PUT', path: `${sessionPath(s.id)}/logs`, body: { logs: s.logs, base: old.logs }, label: sessionLabel(s) });
+    else ops.push({ method: 'PUT', path: sessionPath(s.id), body: { session: s, base: old }, label: sessionLabel(s) });
+  }
+  return ops;
+}
 
-  // Progression using last time
-  const last = findLastLiftPerformance(history, lift);
-  if (last?.exercise?.targetWeightLb) {
-    const lastW = last.exercise.targetWeightLb;
+function downloadJSON(fileName: string, data: unknown) {
+  downloadText(fileName, JSON.stringify(data, null, 2), 'application/json');
+}
 
-    // If last session was easy + good energy => add 2.5–5 lb
-    const lastDifficulty = last.session.difficulty;
-    const lastEnergy = last.session.energy;
+function downloadText(fileName: string, text: string, type: string) {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+}
 
-    let bump = 0;
-    if (lastDifficulty <= 2 && lastEnergy >= 4) bump = 5;
-    else if (lastDifficulty === 3) bump = 2.5;
-    else if (lastDifficulty >= 4 || lastEnergy <= 2) bump = -5;
+function describeState(state: AppState) {
+  const dates = state.history.map(h => h.dateISO).sort();
+  return {
+    name: state.setup?.name || (state.setup ? 'Unnamed' : 'No setup'),
+    sessions: state.history.length,
+    range: dates.length ? `${formatDate(dates[0])} – ${formatDate(dates[dates.length - 1])}` : '—',
+  };
+}
 
-    target = lastW + bump;
-  }
+// Rest between sets: the goal's, or for older sessions heavy compound lifts longer than accessories.
+// Warm-ups hardly any.
+const REST_SEC = { ...DEFAULT_REST_SEC, warmup: 60 };
 
-  // sane bounds
-  target = clamp(target, tMax * 0.55, tMax * 0.9);
+function restSecondsFor(ex: Exercise, set?: SetLog) {
+  if (set?.type === 'warmup') return REST_SEC.warmup;
+  return ex.restSec ?? (ex.primary === 'accessory' ? REST_SEC.accessory : REST_SEC.primary);
+}
 
-  return roundTo2_5(target);
+// Epoch ms when the rest after a set of `ex` finishes, starting now
+function restEndsAt(ex: Exercise, set?: SetLog) {
+  return Date.now() + restSecondsFor(ex, set) * 1000;
 }
 
-function loadState(): { setup: Setup | null; history: Session[] } {
-  if (typeof window === 'undefined') return { setup: null, history: [] };
-  const raw = window.localStorage.getItem(LS_KEY);
-  if (!raw) return { setup: null, history: [] };
-  try {
-    const parsed = JSON.parse(raw);
-    return {
-      setup: parsed.setup ?? null,
-      history: Array.isArray(parsed.history) ? parsed.history : [],
-    };
-  } catch {
-    return { setup: null, history: [] };
-  }
+function elapsedSec(sinceISO: string) {
+  return Math.round((Date.now() - Date.parse(sinceISO)) / 1000);
 }
 
-function saveState(setup: Setup | null, history: Session[]) {
-  if (typeof window === 'undefined') return;
-  window.localStorage.setItem(LS_KEY, JSON.stringify({ setup, history }));
+function formatDuration(sec: number) {
+  const h = Math.floor(sec / 3600);
+  const m = Math.floor((sec % 3600) / 60);
+  const ss = Math.floor(sec % 60);
+  return h > 0 ? `${h}:${String(m).padStart(2, '0')}:${String(ss).padStart(2, '0')}` : `${m}:${String(ss).padStart(2, '0')}`;
 }
 
+const LIFT_COLORS: Record<LiftKey, string> = {
+  bench: '#2563eb', squat: '#dc2626', deadlift: '#16a34a', ohp: '#d97706', row: '#7c3aed',
+};
+
+// Prefix of the trace adjustment left by editing a target load in the program table
+const HAND_SET = 'Load set by hand:';
+
 export default function Page() {
-  const [{ setup, history }, setStore] = useState<{ setup: Setup | null; history: Session[] }>({ setup: null, history: [] });
+  const [{ setup, history }, setStore] = useState<AppState>(emptyState);
+  // Signed-in username; undefined until the server has answered. Nothing is synced until then.
+  const [account, setAccount] = useState<string | null | undefined>(undefined);
+  const [credentials, setCredentials] = useState({ username: '', password: '' });
+  const [authError, setAuthError] = useState<string | null>(null);
+  const [syncError, setSyncError] = useState<string | null>(null);
+  const [offline, setOffline] = useState(false);
+  const [pendingOps, setPendingOps] = useState(0);
+  const [notices, setNotices] = useState<string[]>([]);
+  // The signed-in athlete's coaching: the workout a coach assigned and comments on sessions. Null offline.
+  const [coaching, setCoaching] = useState<Coaching | null>(null);
+  // The state the queued writes will leave the server in; the next diff starts from here
+  const synced = useRef<AppState | null>(emptyState());
+  // Why the server's copy could not be read. Nothing syncs until a reset or restore replaces it on purpose.
+  const [serverUnreadable, setServerUnreadable] = useState<string | null>(null);
+  const flushing = useRef(false);
+  const [quarantine, setQuarantine] = useState<QuarantineEntry[]>([]);
+  const [pendingRestore, setPendingRestore] = useState<{ fileName: string; state: AppState; fromVersion: number } | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null);
+  const importPreview = useMemo(
+    () => (pendingImport ? previewImport(pendingImport.text, pendingImport.options, history) : null),
+    [pendingImport, history],
+  );
 
   const [demoMode, setDemoMode] = useState(false);
+  const [demo, setDemo] = useState({ profile: 'intermediate', seed: 1 });
+  // The account's data while demo mode shows a simulated athlete
+  const beforeDemo = useRef<AppState | null>(null);
+  const [liveMode, setLiveMode] = useState(false);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [editingWorkout, setEditingWorkout] = useState(false);
+  const [backfill, setBackfill] = useState<{ date: string; dayId: string } | null>(null);
+  const [blockDraft, setBlockDraft] = useState({ start: dateInputValue(new Date().toISOString()), weeks: 5, days: [1, 3, 5] });
+
+  // Send queued writes in order until the queue is empty or the connection drops
+  async function flushQueue(username: string) {
+    if (flushing.current || readQueue(username).length === 0) return;
+    flushing.current = true;
+    try {
+      for (let ops = readQueue(username); ops.length > 0; ops = readQueue(username)) {
+        const op = ops[0];
+        try {
+          adoptMerged(op, await api<unknown>(op.path, op.method, op.body));
+        } catch (e) {
+          if (isOffline(e)) {
+            setOffline(true);
+            return;
+          }
+          // the server refused it; retrying won't change its answer
+          setNotices(n => [...n, `${op.label} was not saved: ${(e as Error).message}`]);
+        }
+        writeQueue(username, readQueue(username).slice(1));
+        setPendingOps(readQueue(username).length);
+      }
+      setOffline(false);
+    } finally {
+      flushing.current = false;
+      setPendingOps(readQueue(username).length);
+    }
+  }
+
+  // Take the server's merged session, unless it has been edited here again since the write was queued
+  function adoptMerged(op: SyncOp, data: unknown) {
+    if (!isRecord(data) || !isRecord(data.session) || !Array.isArray(data.conflicts)) return;
+    const merged = data.session as Session;
+    const sent = op.body as { session?: Session; logs?: ExerciseLog[] };
+    const unchanged = (h: Session) => h.id === merged.id && (sent.session ? sameValue(h, sent.session) : sameValue(h.logs, sent.logs));
+    const known = synced.current;
+    if (known?.history.some(unchanged)) {
+      synced.current = { ...known, history: newestFirst(known.history.map(h => (unchanged(h) ? merged : h))) };
+      setStore(st => ({ ...st, history: newestFirst(st.history.map(h => (unchanged(h) ? merged : h))) }));
+    }
+    const conflicts = data.conflicts as string[];
+    if (conflicts.length > 0) {
+      setNotices(n => [...n, `${op.label} was also edited on another device (${conflicts.join(', ')}). This device's values were kept.`]);
+    }
+  }
+
+  async function openAccount() {
+    let res = await fetch('/api/state').catch(() => null);
+    let body = res?.ok ? ((await res.json()) as { username: string; state: StoredState; coaching: Coaching }) : null;
+    // replay anything logged offline before taking the server's copy
+    if (body && readQueue(body.username).length > 0) {
+      await flushQueue(body.username);
+      res = await fetch('/api/state').catch(() => null);
+      body = res?.ok ? await res.json() : null;
+    }
+    if (!res || (body && readQueue(body.username).length > 0)) {
+      // no connection: open what this device last saw and sync once it's back
+      const copy = loadOfflineCopy();
+      if (!copy) {
+        setSyncError('You are offline and this device has no saved copy of your data yet.');
+        return;
+      }
+      synced.current = copy.state;
+      setStore(copy.state);
+      setAccount(copy.username);
+      setOffline(true);
+      setCoaching(null);
+      setPendingOps(readQueue(copy.username).length);
+      setActiveId(null);
+      setQuarantine(listQuarantine());
+      return;
+    }
+    if (res.status === 401) {
+      setAccount(null);
+      return;
+    }
+    if (!body) {
+      setSyncError(`Could not load your data (${res.status})`);
+      return;
+    }
+    const { username, state, coaching } = body;
+    const raw = JSON.stringify(state);
+    const result = parseStoredState(raw);
+    let loaded = result.ok ? result.state : emptyState();
+    // null forces the next change to replace the server copy wholesale
+    let known: AppState | null = loaded;
+    if (!result.ok) {
+      quarantineRaw(raw, 'corrupt', `Server data: ${result.reason}`);
+      known = null;
+    }
+
+    // First sign-in from a browser that already has data: move it into the account
+    const local = result.ok ? loadLocalState() : null;
+    if (local && !loaded.setup && loaded.history.length === 0) {
+      await api('/api/state', 'PUT', storedState(local));
+      quarantineRaw(window.localStorage.getItem(LS_KEY) ?? '', 'replaced', `Uploaded to account ${username}`);
+      window.localStorage.removeItem(LS_KEY);
+      loaded = known = local;
+    } else if (result.ok && result.fromVersion < SCHEMA_VERSION) {
+      await api('/api/state', 'PUT', storedState(loaded));
+    }
+
+    synced.current = known;
+    // the offline copy may be the last readable one; keep it until the server's is replaced
+    if (result.ok) saveOfflineCopy(username, loaded);
+    setServerUnreadable(result.ok ? null : result.reason);
+    setStore(loaded);
+    setAccount(username);
+    setCoaching(coaching);
+    setOffline(false);
+    setActiveId(null);
+    setQuarantine(listQuarantine());
+  }
+
+  // Effects reach these through effect events so they always see the latest state without re-running
+  const openAccountOnMount = useEffectEvent(() => {
+    openAccount().catch(e => setSyncError((e as Error).message));
+  });
+  const flushFromEffect = useEffectEvent((username: string) => {
+    flushQueue(username);
+  });
 
   useEffect(() => {
-    const s = loadState();
-    setStore(s);
+    openAccountOnMount();
+    if (process.env.NODE_ENV === 'production') navigator.serviceWorker?.register('/sw.js');
   }, []);
 
   useEffect(() => {
-    saveState(setup, history);
-  }, [setup, history]);
+    if (!account || demoMode || serverUnreadable) return;
+    const prev = synced.current;
+    if (prev && prev.setup === setup && prev.history === history) return;
+    const next = { setup, history };
+    synced.current = next;
+    saveOfflineCopy(account, next);
+    writeQueue(account, [...readQueue(account), ...diffOps(prev, next)]);
+    flushFromEffect(account);
+  }, [account, demoMode, serverUnreadable, setup, history]);
+
+  useEffect(() => {
+    if (!account || serverUnreadable) return;
+    const retry = () => flushFromEffect(account);
+    window.addEventListener('online', retry);
+    return () => window.removeEventListener('online', retry);
+  }, [account, serverUnreadable]);
+
+  async function signIn(mode: 'login' | 'register') {
+    setAuthError(null);
+    try {
+      await api(`/api/auth/${mode}`, 'POST', credentials);
+      setCredentials({ username: '', password: '' });
+      await openAccount();
+    } catch (e) {
+      setAuthError((e as Error).message);
+    }
+  }
+
+  async function signOut() {
+    if (!account) return;
+    // let pending writes land before the cookie goes; whatever can't be sent waits for the next sign-in
+    await flushQueue(account);
+    try {
+      await api('/api/auth/logout', 'POST');
+    } catch (e) {
+      setNotices(n => [...n, `Could not sign out: ${(e as Error).message}`]);
+      return;
+    }
+    window.localStorage.removeItem(LS_OFFLINE_COPY);
+    synced.current = emptyState();
+    setServerUnreadable(null);
+    setStore(emptyState());
+    setAccount(null);
+    setCoaching(null);
+    beforeDemo.current = null;
+    setActiveId(null);
+    setLiveMode(false);
+    setDemoMode(false);
+  }
 
-  const nextDayType = useMemo(() => pickNextDayType(history), [history]);
+  // A block decides what's next while it runs; otherwise the split rotation does
+  const next = useMemo(() => (setup ? nextWorkoutDay(setup, history) : null), [setup, history]);
+  const nextDay = next?.day ?? null;
+  const assigned = pendingAssignment(coaching, history);
+  const retestLifts = setup ? retestDue(setup, history, new Date().toISOString()) : [];
+
+  const [showAllHistory, setShowAllHistory] = useState(false);
+  const [volumeMetric, setVolumeMetric] = useState<'hardSets' | 'tonnage'>('hardSets');
+  const e1RMs = useMemo(() => e1RMHistory(history), [history]);
+  const volume = useMemo(() => weeklyVolume(history).slice(-8), [history]);
+  const bodyweight = useMemo(() => (setup ? bodyweightSeries(setup, history) : []), [setup, history]);
+  const strength = useMemo(() => (setup ? relativeStrength(setup, history) : null), [setup, history]);
+  const [bodyweightDraft, setBodyweightDraft] = useState('');
+  const painfulNow = useMemo(() => {
+    const nowISO = new Date().toISOString();
+    return new Set((setup?.painFlags ?? []).flatMap(f => (f.catalogId && painFlagStatus(f, nowISO) === 'active' ? [f.catalogId] : [])));
+  }, [setup]);
+  const prsBySession = useMemo(() => {
+    const map = new Map<string, RepMaxPR[]>();
+    for (const pr of detectRepMaxPRs(history)) map.set(pr.sessionId, [...(map.get(pr.sessionId) ?? []), pr]);
+    return map;
+  }, [history]);
 
   const [draftSetup, setDraftSetup] = useState<Setup>({
     name: 'Paul',
@@ -234,111 +497,397 @@ export default function Page() {
     weightLb: 180,
     goal: 'Hypertrophy',
     fiveRM: { bench: 225, squat: 275, deadlift: 315, ohp: 135, row: 185 },
+    progression: DEFAULT_PROGRESSION,
+    split: SPLIT_PRESETS.classic,
+    equipment: ALL_EQUIPMENT,
+    units: 'lb',
+    plates: DEFAULT_PLATES.lb,
   });
 
-  useEffect(() => {
+  // Reset the form whenever the saved setup changes (load, save, restore)
+  const [draftSource, setDraftSource] = useState(setup);
+  if (setup !== draftSource) {
+    setDraftSource(setup);
     if (setup) setDraftSetup(setup);
-  }, [setup]);
+  }
+
+  // A weigh-in also becomes the setup's weight, so the setup form shows the latest
+  function logBodyweight() {
+    const value = Number(bodyweightDraft);
+    if (!setup || !bodyweightDraft || !(value > 0)) return;
+    const entry = { dateISO: new Date().toISOString(), weightLb: toLb(value, setup.units) };
+    setStore({ setup: { ...setup, weightLb: entry.weightLb, bodyweightLog: [entry, ...(setup.bodyweightLog ?? [])] }, history });
+    setBodyweightDraft('');
+  }
+
+  function removeBodyweightEntry(dateISO: string) {
+    if (!setup) return;
+    setStore({ setup: { ...setup, bodyweightLog: setup.bodyweightLog?.filter(e => e.dateISO !== dateISO) }, history });
+  }
+
+  function updatePainFlags(painFlags: PainFlag[]) {
+    if (!setup) return;
+    setStore({ setup: { ...setup, painFlags }, history });
+  }
+
+  // Marking an exercise painful swaps it out of coming sessions for a week; marking it again clears that
+  function toggleExercisePain(ex: Exercise) {
+    if (!setup) return;
+    const flags = setup.painFlags ?? [];
+    const nowISO = new Date().toISOString();
+    const existing = flags.find(f => f.catalogId === ex.catalogId && painFlagStatus(f, nowISO) === 'active');
+    if (existing) {
+      updatePainFlags(flags.filter(f => f !== existing));
+      return;
+    }
+    const untilISO = new Date(Date.now() + 7 * DAY_MS).toISOString();
+    updatePainFlags([...flags, { id: uid('pain'), catalogId: ex.catalogId, severity: 'moderate', startISO: nowISO, untilISO }]);
+  }
 
-  function applyDemoData() {
+  // Demo mode swaps in a simulated athlete's history. Nothing is synced while it's on, and turning it off
+  // brings the account's own data back.
+  function loadDemo(profile: string, seed: number) {
+    const athlete = SIMULATED_ATHLETES[profile];
+    if (!athlete) return;
+    if (!demoMode) beforeDemo.current = { setup, history };
+    const weeks = 16;
+    const startISO = new Date(Date.now() - weeks * 7 * DAY_MS).toISOString();
+    setStore(simulateHistory(athlete, { seed, startISO, weeks }).state);
+    setDemo({ profile, seed });
     setDemoMode(true);
-    const demoSetup: Setup = {
-      name: 'Demo Athlete',
-      gender: 'Male',
-      heightIn: 70,
-      weightLb: 180,
-      goal: 'Hypertrophy',
-      fiveRM: { bench: 225, squat: 275, deadlift: 315, ohp: 135, row: 185 },
-    };
+    setActiveId(null);
+  }
 
-    const demoHistory: Session[] = [
-      {
-        id: uid('sess'),
-        dateISO: new Date(Date.now() - 2 * 24 * 3600 * 1000).toISOString(),
-        dayType: 'Chest & Triceps',
-        muscleGroups: ['Chest', 'Shoulders', 'Triceps'],
-        energy: 4,
-        difficulty: 3,
-        sleepHours: 7,
-        workout: [
-          { id: uid('ex'), name: 'Barbell Bench Press', primary: 'bench', muscleGroups: ['Chest', 'Triceps'], sets: 4, reps: '6-10', targetWeightLb: 175 },
-          { id: uid('ex'), name: 'Overhead Press', primary: 'ohp', muscleGroups: ['Shoulders'], sets: 3, reps: '6-10', targetWeightLb: 105 },
-          { id: uid('ex'), name: 'Incline Dumbbell Press', primary: 'accessory', muscleGroups: ['Chest'], sets: 3, reps: '8-12' },
-          { id: uid('ex'), name: 'Lateral Raises', primary: 'accessory', muscleGroups: ['Shoulders'], sets: 3, reps: '12-15' },
-          { id: uid('ex'), name: 'Triceps Rope Pushdown', primary: 'accessory', muscleGroups: ['Triceps'], sets: 3, reps: '10-15' },
-        ],
-        logs: [],
-      },
-      {
-        id: uid('sess'),
-        dateISO: new Date(Date.now() - 1 * 24 * 3600 * 1000).toISOString(),
-        dayType: 'Back & Biceps',
-        muscleGroups: ['Back', 'Biceps'],
-        energy: 3,
-        difficulty: 4,
-        sleepHours: 6,
-        workout: [
-          { id: uid('ex'), name: 'Barbell Row', primary: 'row', muscleGroups: ['Back'], sets: 4, reps: '6-10', targetWeightLb: 145 },
-          { id: uid('ex'), name: 'Pull-Ups / Lat Pulldown', primary: 'accessory', muscleGroups: ['Back'], sets: 3, reps: '6-12' },
-          { id: uid('ex'), name: 'Seated Cable Row', primary: 'accessory', muscleGroups: ['Back'], sets: 3, reps: '8-12' },
-          { id: uid('ex'), name: 'Face Pulls', primary: 'accessory', muscleGroups: ['Rear Delts'], sets: 3, reps: '12-15' },
-          { id: uid('ex'), name: 'Dumbbell Curls', primary: 'accessory', muscleGroups: ['Biceps'], sets: 3, reps: '10-15' },
-        ],
-        logs: [],
-      },
-    ];
-
-    setStore({ setup: demoSetup, history: demoHistory });
+  function leaveDemo() {
+    setStore(beforeDemo.current ?? emptyState());
+    beforeDemo.current = null;
+    setDemoMode(false);
+    setActiveId(null);
+    setLiveMode(false);
   }
 
+  // A workout the coach assigned comes before whatever the planner would pick
   function generateTodayWorkout() {
     if (!setup) return;
+    const now = new Date().toISOString();
+    const session = assigned ? sessionFromAssignment(assigned, now) : planNextSession(setup, history, now);
+    if (!session) return;
+    setHistory([session, ...history]);
+    setActiveId(session.id);
+  }
 
-    const dayType = nextDayType;
-    const template = baseWorkoutTemplate(dayType);
+  // A 5RM test day for `lifts`: the ones due, or every lift the split trains
+  function startRetest(lifts: LiftKey[]) {
+    if (!setup || lifts.length === 0) return;
+    const session = planRetestSession(setup, lifts, new Date().toISOString());
+    setHistory([session, ...history]);
+    setActiveId(session.id);
+  }
 
-    const workout = template.map(ex => {
-      if (ex.primary === 'bench' || ex.primary === 'squat' || ex.primary === 'deadlift' || ex.primary === 'ohp' || ex.primary === 'row') {
-        const targetWeightLb = computeTargetWeightLb({ setup, history, lift: ex.primary, dayType });
-        return { ...ex, targetWeightLb };
-      }
-      return ex;
-    });
+  function saveRetest(session: Session, accepted: BaselineProposal[], recalculate: boolean) {
+    if (!setup) return;
+    setStore({ setup: applyRetest(setup, session, accepted, recalculate, new Date().toISOString()), history });
+  }
+
+  // Train a slot of the block now, whatever date it was planned for
+  function startPlannedSession(p: PlannedSession) {
+    if (!setup) return;
+    const session = planBlockSession(setup, history, p, new Date().toISOString());
+    if (!session) return;
+    setHistory([session, ...history]);
+    setActiveId(session.id);
+  }
+
+  function updatePlan(plan: Mesocycle | undefined) {
+    if (!setup) return;
+    setStore({ setup: { ...setup, plan }, history });
+  }
+
+  function createBlock() {
+    if (!setup || blockDraft.days.length === 0) return;
+    if (setup.plan && !window.confirm('Replace the current training block? Sessions already logged are kept.')) return;
+    updatePlan(scheduleBlock(setup.split, history, blockDraft.start, blockDraft.weeks, blockDraft.days));
+  }
+
+  // Backfill a session that was trained but never logged, from the split day's template
+  function addPastSession() {
+    if (!setup || !backfill) return;
+    const day = setup.split.days.find(d => d.id === backfill.dayId);
+    if (!day || !backfill.date) return;
+    const session = planSession(setup, history, day, new Date(`${backfill.date}T12:00:00`).toISOString());
+    setHistory([...history, session]);
+    setActiveId(session.id);
+    setBackfill(null);
+  }
+
+  const units = setup?.units ?? 'lb';
+
+  // The session being logged: one opened from history, otherwise the latest one from today
+  const active = history.find(h => h.id === activeId)
+    ?? (history[0] && isSameDay(history[0].dateISO, new Date().toISOString()) ? history[0] : null);
+  const previous = active ? history[history.indexOf(active) + 1] : undefined;
+
+  function setHistory(next: Session[]) {
+    setStore({ setup, history: newestFirst(next) });
+  }
+
+  function updateActive(patch: Partial<Session>) {
+    if (!active) return;
+    setHistory(history.map(h => (h.id === active.id ? { ...h, ...patch } : h)));
+  }
+
+  function openSession(s: Session) {
+    setActiveId(s.id);
+    setLiveMode(false);
+  }
+
+  function copySession(s: Session) {
+    const copy = duplicateSession(s, new Date().toISOString());
+    setHistory([copy, ...history]);
+    setActiveId(copy.id);
+  }
 
-    const muscleGroups = Array.from(new Set(workout.flatMap(w => w.muscleGroups)));
+  function deleteSession(s: Session) {
+    if (!window.confirm(`Delete the ${s.dayType} session from ${formatDate(s.dateISO)}? This can't be undone.`)) return;
+    setHistory(history.filter(h => h.id !== s.id));
+    if (s.id === active?.id) {
+      setActiveId(null);
+      setLiveMode(false);
+    }
+  }
 
-    const session: Session = {
-      id: uid('sess'),
-      dateISO: new Date().toISOString(),
-      dayType,
-      muscleGroups,
-      energy: 3,
-      difficulty: 3,
+  function updateWorkout(workout: Exercise[]) {
+    if (!active) return;
+    const kept = new Set(workout.map(w => w.id));
+    const logged = new Set(active.logs.map(l => l.exerciseId));
+    updateActive({
       workout,
-      logs: workout.map(w => ({ exerciseId: w.id })),
+      muscleGroups: Array.from(new Set(workout.flatMap(w => w.muscleGroups))),
+      logs: [
+        ...active.logs.filter(l => kept.has(l.exerciseId)),
+        ...workout.filter(w => !logged.has(w.id)).map(w => ({ exerciseId: w.id, sets: emptySets(w) })),
+      ],
+    });
+  }
+
+  function updateExercise(ex: Exercise, patch: Partial<Exercise>) {
+    if (!active) return;
+    const refresh = (w: Exercise) => {
+      if (!setup || !('targetWeightLb' in patch)) return w;
+      // keep one note for a hand-set load, however many keystrokes it took
+      const trace = w.trace && { ...w.trace, adjustments: w.trace.adjustments?.filter(a => !a.startsWith(HAND_SET)) };
+      const load = patch.targetWeightLb === undefined ? 'cleared' : formatWeight(patch.targetWeightLb, setup.units);
+      return withWarmups(setup, withAdjustment({ ...w, trace }, `${HAND_SET} ${load}`));
     };
+    updateWorkout(active.workout.map(w => (w.id === ex.id ? refresh({ ...w, ...patch }) : w)));
+  }
+
+  function addExercise(catalogId: string) {
+    const entry = CATALOG_BY_ID.get(catalogId);
+    if (!active || !setup || !entry) return;
+    const earlier = progressionHistory(history, active.dateISO);
+    const added = applyGoal(setup.goal, exerciseFromCatalog(entry), false);
+    updateWorkout([...active.workout, withWarmups(setup, prescribeExercise(setup, earlier, added))]);
+  }
+
+  function removeExercise(ex: Exercise) {
+    if (!active) return;
+    updateWorkout(active.workout.filter(w => w.id !== ex.id));
+  }
+
+  // Replace one of today's exercises, keeping its slot and volume; whatever was logged for the old one is dropped
+  function swapExercise(ex: Exercise, catalogId: string) {
+    const entry = CATALOG_BY_ID.get(catalogId);
+    if (!active || !setup || !entry) return;
+    const earlier = progressionHistory(history, active.dateISO);
+    const base = applyGoal(setup.goal, exerciseFromCatalog(entry, ex.sets, ex.primary === 'accessory' ? ex.reps : entry.reps), true);
+    const swapped = withWarmups(setup, prescribeExercise(setup, earlier, { ...base, id: ex.id, notes: `Swapped from ${ex.name}` }));
+    const workout = active.workout.map(w => (w.id === ex.id ? swapped : w));
+    updateActive({
+      workout,
+      muscleGroups: Array.from(new Set(workout.flatMap(w => w.muscleGroups))),
+      logs: active.logs.map(l => (l.exerciseId === ex.id ? { ...l, sets: emptySets(swapped) } : l)),
+    });
+  }
+
+  function updateExerciseSets(ex: Exercise, update: (sets: SetLog[]) => SetLog[]) {
+    if (!active) return;
+    const existing = active.logs.find(l => l.exerciseId === ex.id);
+    const sets = update(existing?.sets ?? emptySets(ex));
+    const logs = existing
+      ? active.logs.map(l => (l.exerciseId === ex.id ? { ...l, sets } : l))
+      : [...active.logs, { exerciseId: ex.id, sets }];
+    updateActive({ logs });
+  }
+
+  function updateSet(ex: Exercise, index: number, patch: Partial<SetLog>) {
+    updateExerciseSets(ex, sets => sets.map((st, i) => (i === index ? { ...st, ...patch } : st)));
+  }
 
-    setStore({ setup, history: [session, ...history] });
+  function addSet(ex: Exercise) {
+    updateExerciseSets(ex, sets => {
+      // carry the previous set's weight forward so back-off sets are quick to enter
+      const prev = sets[sets.length - 1];
+      return [...sets, { type: 'working', weightLb: prev?.weightLb ?? ex.targetWeightLb }];
+    });
   }
 
-  const today = history[0] && isSameDay(history[0].dateISO, new Date().toISOString()) ? history[0] : null;
+  function removeSet(ex: Exercise, index: number) {
+    updateExerciseSets(ex, sets => sets.filter((_, i) => i !== index));
+  }
 
-  function updateToday(patch: Partial<Session>) {
-    if (!today) return;
-    const updated = { ...today, ...patch };
-    setStore({ setup, history: [updated, ...history.slice(1)] });
+  function startLiveWorkout() {
+    if (!active) return;
+    if (!active.startedAtISO) updateActive({ startedAtISO: new Date().toISOString() });
+    setLiveMode(true);
   }
 
-  function updateExerciseLog(exId: string, patch: Partial<ExerciseLog>) {
-    if (!today) return;
-    const logs = today.logs.map(l => (l.exerciseId === exId ? { ...l, ...patch } : l));
-    updateToday({ logs });
+  // Elapsed time is wall-clock from the first start, so leaving and resuming keeps counting
+  function leaveLiveWorkout() {
+    if (active?.startedAtISO) {
+      updateActive({ durationSec: elapsedSec(active.startedAtISO) });
+    }
+    setLiveMode(false);
   }
 
   function resetAll() {
-    window.localStorage.removeItem(LS_KEY);
-    setStore({ setup: null, history: [] });
+    if (!window.confirm('Reset all data? A copy is kept in this browser under "Data & backups" until you delete it.')) return;
+    quarantineRaw(JSON.stringify(storedState({ setup, history })), 'reset', 'Reset by user');
+    setStore(emptyState());
+    setServerUnreadable(null);
+    setQuarantine(listQuarantine());
     setDemoMode(false);
+    setActiveId(null);
+  }
+
+  function downloadBackup() {
+    const stored: StoredState & { exportedAtISO: string } = {
+      ...storedState({ setup, history }),
+      exportedAtISO: new Date().toISOString(),
+    };
+    downloadJSON(`flex-backup-${stored.exportedAtISO.slice(0, 10)}.json`, stored);
+  }
+
+  function downloadSetsCSV() {
+    downloadText(`flex-sets-${new Date().toISOString().slice(0, 10)}.csv`, sessionsToCSV(history, units), 'text/csv');
+  }
+
+  function downloadCalendar() {
+    const nowISO = new Date().toISOString();
+    downloadText(`flex-calendar-${nowISO.slice(0, 10)}.ics`, sessionsToICS(setup, history, nowISO), 'text/calendar');
+  }
+
+  async function chooseRestoreFile(file: File) {
+    setRestoreError(null);
+    const result = parseStoredState(await file.text());
+    if (!result.ok) {
+      setPendingRestore(null);
+      setRestoreError(`${file.name}: ${result.reason}`);
+      return;
+    }
+    setPendingRestore({ fileName: file.name, state: result.state, fromVersion: result.fromVersion });
+  }
+
+  function confirmRestore() {
+    if (!pendingRestore) return;
+    // the overwritten data stays recoverable the same way a reset does
+    quarantineRaw(JSON.stringify(storedState({ setup, history })), 'replaced', `Replaced by restore of ${pendingRestore.fileName}`);
+    setStore(pendingRestore.state);
+    setServerUnreadable(null);
+    setQuarantine(listQuarantine());
+    setPendingRestore(null);
+    setActiveId(null);
+  }
+
+  async function chooseImportFile(file: File) {
+    const text = await file.text();
+    const headers = parseCSV(text)[0] ?? [];
+    setPendingImport({
+      fileName: file.name,
+      text,
+      headers,
+      options: { format: detectFormat(headers), units, columns: guessColumns(headers), mapping: {} },
+      includeDuplicates: false,
+    });
+  }
+
+  function updateImportOptions(patch: Partial<ImportOptions>) {
+    if (!pendingImport) return;
+    setPendingImport({ ...pendingImport, options: { ...pendingImport.options, ...patch } });
+  }
+
+  function confirmImport(sessions: Session[]) {
+    setHistory([...commitImport(sessions), ...history]);
+    setPendingImport(null);
+  }
+
+  // Set-aside data goes through the same confirmation as a backup file
+  function chooseQuarantineRestore(entry: QuarantineEntry) {
+    const label = `set-aside data from ${new Date(entry.dateISO).toLocaleString()}`;
+    setRestoreError(null);
+    const result = parseStoredState(entry.raw);
+    if (!result.ok) {
+      setPendingRestore(null);
+      setRestoreError(`${label}: ${result.reason}`);
+      return;
+    }
+    setPendingRestore({ fileName: label, state: result.state, fromVersion: result.fromVersion });
+  }
+
+  // Decline the coach's workout; the planner picks the next one again
+  async function dismissAssignment(id: string) {
+    try {
+      setCoaching(await api<Coaching>(`/api/coaching/assignment/${encodeURIComponent(id)}`, 'DELETE'));
+    } catch (e) {
+      setNotices(n => [...n, `Could not dismiss the assigned workout: ${(e as Error).message}`]);
+    }
+  }
+
+  function discardQuarantine(entry: QuarantineEntry) {
+    window.localStorage.removeItem(entry.key);
+    setQuarantine(listQuarantine());
+  }
+
+  if (!account) {
+    return (
+      <div style={styles.page}>
+        <div style={styles.header}>
+          <div>
+            <div style={styles.h1}>Flex</div>
+            <div style={styles.sub}>The AI workout planner for tracking lifts and driving long-term gains</div>
+          </div>
+        </div>
+
+        {syncError && <div style={styles.warning}>{syncError}</div>}
+
+        {account === undefined ? (
+          !syncError && <div style={styles.note}>Loading your data…</div>
+        ) : (
+          <section style={styles.card}>
+            <div style={styles.cardTitle}>Sign in</div>
+            <div style={styles.muted}>Your setup and sessions are saved to your account, so they follow you between devices.</div>
+            <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginTop: 12 }}>
+              <Field label="Username">
+                <input style={styles.input} autoComplete="username" value={credentials.username} onChange={(e) => setCredentials({ ...credentials, username: e.target.value })} />
+              </Field>
+              <Field label="Password">
+                <input
+                  style={styles.input}
+                  type="password"
+                  autoComplete="current-password"
+                  value={credentials.password}
+                  onChange={(e) => setCredentials({ ...credentials, password: e.target.value })}
+                  onKeyDown={(e) => e.key === 'Enter' && signIn('login')}
+                />
+              </Field>
+              <button style={styles.btn} onClick={() => signIn('login')}>Sign in</button>
+              <button style={styles.btnSecondary} onClick={() => signIn('register')}>Create account</button>
+            </div>
+            {authError && <div style={styles.warning}>{authError}</div>}
+          </section>
+        )}
+      </div>
+    );
   }
 
   return (
@@ -350,15 +899,60 @@ export default function Page() {
         </div>
 
         <div style={styles.headerRight}>
+          <span style={styles.muted}>Signed in as {account}</span>
+          <button style={styles.btnSecondary} onClick={signOut}>Sign out</button>
           <label style={styles.toggleRow}>
-            <input type="checkbox" checked={demoMode} onChange={(e) => setDemoMode(e.target.checked)} />
+            <input type="checkbox" checked={demoMode} onChange={(e) => (e.target.checked ? loadDemo(demo.profile, demo.seed) : leaveDemo())} />
             <span style={{ marginLeft: 8 }}>Demo Mode</span>
           </label>
-          <button style={styles.btn} onClick={applyDemoData}>Load demo data</button>
-          <button style={styles.btnSecondary} onClick={resetAll}>Reset</button>
+          <button style={styles.btn} onClick={() => loadDemo(demo.profile, demoMode ? demo.seed + 1 : demo.seed)}>
+            {demoMode ? 'Another demo athlete' : 'Load demo data'}
+          </button>
+          <button style={styles.btnSecondary} disabled={demoMode} title={demoMode ? 'Leave demo mode first' : undefined} onClick={resetAll}>Reset</button>
         </div>
       </div>
 
+      {syncError && <div style={styles.warning}>{syncError}</div>}
+
+      {demoMode && (
+        <div style={styles.note}>
+          Demo mode: {SIMULATED_ATHLETES[demo.profile]?.label}, simulated from seed {demo.seed}. Nothing is saved while it’s on;
+          turn Demo Mode off to get your own data back.{' '}
+          <select style={{ ...styles.inputSmall, width: 320 }} value={demo.profile} onChange={(e) => loadDemo(e.target.value, demo.seed)}>
+            {Object.entries(SIMULATED_ATHLETES).map(([key, a]) => <option key={key} value={key}>{a.label}</option>)}
+          </select>
+        </div>
+      )}
+
+      {(offline || pendingOps > 0) && (
+        <div style={styles.note}>
+          {offline ? 'Offline. ' : ''}
+          {pendingOps > 0
+            ? `${pendingOps} change${pendingOps === 1 ? '' : 's'} saved on this device, waiting to sync.`
+            : 'Changes are saved on this device and sync when you reconnect.'}
+        </div>
+      )}
+
+      {notices.length > 0 && (
+        <div style={styles.warning}>
+          {notices.map((n, i) => <div key={i}>{n}</div>)}
+          <button style={{ ...styles.btnSecondary, marginTop: 8 }} onClick={() => setNotices([])}>Dismiss</button>
+        </div>
+      )}
+
+      {serverUnreadable && (
+        <div style={styles.warning}>
+          Your account&apos;s data on the server could not be read ({serverUnreadable}). It is left as it is, and a copy is
+          set aside under “Data & backups”. Nothing is saved to your account until you restore a backup or reset.
+        </div>
+      )}
+
+      {!serverUnreadable && quarantine.some(q => q.kind === 'corrupt') && (
+        <div style={styles.warning}>
+          Some saved data could not be loaded and was set aside. See “Data & backups” below to download it.
+        </div>
+      )}
+
       {/* SETUP */}
       <section style={styles.card}>
         <div style={styles.cardTitle}>Setup</div>
@@ -369,11 +963,36 @@ export default function Page() {
           <Field label="Gender">
             <input style={styles.input} value={draftSetup.gender} onChange={(e) => setDraftSetup({ ...draftSetup, gender: e.target.value })} />
           </Field>
-          <Field label="Height (in)">
-            <input style={styles.input} type="number" value={draftSetup.heightIn} onChange={(e) => setDraftSetup({ ...draftSetup, heightIn: Number(e.target.value) })} />
+          <Field label="Units">
+            <select
+              style={styles.input}
+              value={draftSetup.units}
+              onChange={(e) => {
+                const units = e.target.value as Units;
+                // switching units usually means switching gyms, so offer that gym's standard plates
+                const plates = draftSetup.plates.unit === units ? draftSetup.plates : DEFAULT_PLATES[units];
+                setDraftSetup({ ...draftSetup, units, plates });
+              }}
+            >
+              <option value="lb">lb</option>
+              <option value="kg">kg</option>
+            </select>
+          </Field>
+          <Field label={draftSetup.units === 'kg' ? 'Height (cm)' : 'Height (in)'}>
+            <input
+              style={styles.input}
+              type="number"
+              value={draftSetup.units === 'kg' ? Math.round(draftSetup.heightIn * 2.54) : draftSetup.heightIn}
+              onChange={(e) => setDraftSetup({ ...draftSetup, heightIn: draftSetup.units === 'kg' ? Number(e.target.value) / 2.54 : Number(e.target.value) })}
+            />
           </Field>
-          <Field label="Weight (lb)">
-            <input style={styles.input} type="number" value={draftSetup.weightLb} onChange={(e) => setDraftSetup({ ...draftSetup, weightLb: Number(e.target.value) })} />
+          <Field label={`Weight (${draftSetup.units})`}>
+            <input
+              style={styles.input}
+              type="number"
+              value={displayWeight(draftSetup.weightLb, draftSetup.units)}
+              onChange={(e) => setDraftSetup({ ...draftSetup, weightLb: toLb(Number(e.target.value), draftSetup.units) })}
+            />
           </Field>
           <Field label="Goal">
             <select style={styles.input} value={draftSetup.goal} onChange={(e) => setDraftSetup({ ...draftSetup, goal: e.target.value as Setup['goal'] })}>
@@ -381,19 +1000,107 @@ export default function Page() {
               <option>Strength</option>
               <option>Health</option>
             </select>
+            <div style={styles.muted}>
+              Main lifts {GOAL_SCHEMES[draftSetup.goal].primary.sets} × {GOAL_SCHEMES[draftSetup.goal].primary.reps},
+              {' '}{GOAL_SCHEMES[draftSetup.goal].primary.restSec / 60} min rest
+            </div>
+          </Field>
+          <Field label="Session length">
+            <select
+              style={styles.input}
+              value={draftSetup.sessionMinutes ?? DEFAULT_SESSION_MINUTES}
+              onChange={(e) => setDraftSetup({ ...draftSetup, sessionMinutes: Number(e.target.value) })}
+            >
+              {SESSION_MINUTES.map(m => <option key={m} value={m}>{m} min</option>)}
+            </select>
           </Field>
         </div>
 
-        <div style={{ marginTop: 12, fontWeight: 700 }}>5RM inputs (lbs)</div>
+        <div style={{ marginTop: 12, fontWeight: 700 }}>5RM inputs ({draftSetup.units})</div>
         <div style={styles.grid}>
           {(['bench', 'squat', 'deadlift', 'ohp', 'row'] as LiftKey[]).map(k => (
             <Field key={k} label={k.toUpperCase()}>
               <input
                 style={styles.input}
                 type="number"
-                value={draftSetup.fiveRM[k]}
-                onChange={(e) => setDraftSetup({ ...draftSetup, fiveRM: { ...draftSetup.fiveRM, [k]: Number(e.target.value) } })}
+                value={displayWeight(draftSetup.fiveRM[k], draftSetup.units)}
+                onChange={(e) => setDraftSetup({ ...draftSetup, fiveRM: { ...draftSetup.fiveRM, [k]: toLb(Number(e.target.value), draftSetup.units) } })}
+              />
+            </Field>
+          ))}
+        </div>
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end', marginTop: 8 }}>
+          <Field label="Retest 5RMs">
+            <select
+              style={{ ...styles.input, width: 180 }}
+              value={draftSetup.retestEveryWeeks ?? ''}
+              onChange={(e) => setDraftSetup({ ...draftSetup, retestEveryWeeks: e.target.value ? Number(e.target.value) : undefined })}
+            >
+              <option value="">Not scheduled</option>
+              {RETEST_INTERVALS_WEEKS.map(w => <option key={w} value={w}>Every {w} weeks</option>)}
+            </select>
+          </Field>
+          {setup && (
+            <button
+              style={styles.btnSecondary}
+              disabled={liftsInSplit(setup).length === 0}
+              onClick={() => startRetest(retestLifts.length ? retestLifts : liftsInSplit(setup))}
+              title={`Test ${(retestLifts.length ? retestLifts : liftsInSplit(setup)).join(', ')}`}
+            >
+              Start a retest day
+            </button>
+          )}
+        </div>
+
+        <div style={{ marginTop: 12, fontWeight: 700 }}>Bar & plates ({draftSetup.plates.unit})</div>
+        <PlateEditor config={draftSetup.plates} onChange={(plates) => setDraftSetup({ ...draftSetup, plates })} />
+
+        <div style={{ marginTop: 12, fontWeight: 700 }}>Warm-ups for main lifts</div>
+        <WarmupEditor setup={draftSetup} onChange={(warmup) => setDraftSetup({ ...draftSetup, warmup })} />
+
+        <div style={{ marginTop: 12, fontWeight: 700 }}>Equipment</div>
+        <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginTop: 10 }}>
+          <select
+            style={{ ...styles.input, width: 180 }}
+            value=""
+            onChange={(e) => {
+              const profile = EQUIPMENT_PROFILES[e.target.value];
+              if (profile) setDraftSetup({ ...draftSetup, equipment: profile.equipment });
+            }}
+          >
+            <option value="">Use a profile…</option>
+            {Object.entries(EQUIPMENT_PROFILES).map(([key, p]) => <option key={key} value={key}>{p.name}</option>)}
+          </select>
+          {ALL_EQUIPMENT.map(eq => (
+            <label key={eq} style={styles.toggleRow}>
+              <input
+                type="checkbox"
+                checked={draftSetup.equipment.includes(eq)}
+                onChange={(e) => setDraftSetup({
+                  ...draftSetup,
+                  equipment: e.target.checked ? [...draftSetup.equipment, eq] : draftSetup.equipment.filter(x => x !== eq),
+                })}
               />
+              <span>{eq}</span>
+            </label>
+          ))}
+        </div>
+
+        <div style={{ marginTop: 12, fontWeight: 700 }}>Training split</div>
+        <SplitEditor split={draftSetup.split} equipment={draftSetup.equipment} onChange={(split) => setDraftSetup({ ...draftSetup, split })} />
+
+        <div style={{ marginTop: 12, fontWeight: 700 }}>Progression</div>
+        <div style={styles.grid}>
+          {LIFT_KEYS.map(k => (
+            <Field key={k} label={k.toUpperCase()}>
+              <select
+                style={styles.input}
+                value={draftSetup.progression[k]}
+                title={PROGRESSION_STRATEGIES[draftSetup.progression[k]].description}
+                onChange={(e) => setDraftSetup({ ...draftSetup, progression: { ...draftSetup.progression, [k]: e.target.value as ProgressionStrategyId } })}
+              >
+                {Object.values(PROGRESSION_STRATEGIES).map(st => <option key={st.id} value={st.id}>{st.label}</option>)}
+              </select>
             </Field>
           ))}
         </div>
@@ -401,75 +1108,174 @@ export default function Page() {
         <div style={{ display: 'flex', gap: 10, marginTop: 12 }}>
           <button
             style={styles.btn}
-            onClick={() => setStore({ setup: draftSetup, history })}
+            onClick={() => setStore({ setup: recordSetupBaselines(setup, draftSetup, new Date().toISOString()), history })}
           >
             Save setup
           </button>
           <button
             style={styles.btn}
-            disabled={!setup}
+            disabled={!nextDay && !assigned}
             onClick={generateTodayWorkout}
-            title={!setup ? 'Save setup first' : 'Generate today'}
+            title={!setup ? 'Save setup first' : assigned ? `Start ${assigned.dayName} from ${assigned.coach}` : !nextDay ? 'Add a day to your split first' : `Generate ${nextDay.name}`}
           >
             Generate today’s workout
           </button>
         </div>
+        {assigned ? (
+          <div style={styles.muted}>Next up: {assigned.dayName}, assigned by {assigned.coach}</div>
+        ) : (
+          nextDay && <div style={styles.muted}>Next up: {nextDay.name}</div>
+        )}
 
         {!setup && <div style={styles.note}>Save setup first, then generate today’s workout.</div>}
       </section>
 
+      {/* BLOCK */}
+      {setup && (
+        <section style={styles.card}>
+          <div style={styles.cardTitle}>Training block</div>
+          <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'flex-end' }}>
+            <Field label="Starts">
+              <input style={{ ...styles.inputSmall, width: 150 }} type="date" value={blockDraft.start} onChange={(e) => setBlockDraft({ ...blockDraft, start: e.target.value })} />
+            </Field>
+            <Field label="Weeks (last one deloads)">
+              <select style={{ ...styles.inputSmall, width: 90 }} value={blockDraft.weeks} onChange={(e) => setBlockDraft({ ...blockDraft, weeks: Number(e.target.value) })}>
+                {BLOCK_LENGTHS.map(w => <option key={w} value={w}>{w}</option>)}
+              </select>
+            </Field>
+            <Field label="Training days">
+              <div style={{ display: 'flex', gap: 8 }}>
+                {WEEKDAYS.map((name, d) => (
+                  <label key={name} style={styles.toggleRow}>
+                    <input
+                      type="checkbox"
+                      checked={blockDraft.days.includes(d)}
+                      onChange={(e) => setBlockDraft({ ...blockDraft, days: e.target.checked ? [...blockDraft.days, d] : blockDraft.days.filter(x => x !== d) })}
+                    />
+                    {name}
+                  </label>
+                ))}
+              </div>
+            </Field>
+            <button style={styles.btn} disabled={blockDraft.days.length === 0 || setup.split.days.length === 0 || !blockDraft.start} onClick={createBlock}>
+              {setup.plan ? 'Re-plan block' : 'Plan block'}
+            </button>
+            {setup.plan && (
+              <button style={styles.btnSecondary} onClick={() => window.confirm('End this training block?') && updatePlan(undefined)}>End block</button>
+            )}
+          </div>
+
+          {setup.plan ? (
+            <PlanCalendar
+              plan={setup.plan}
+              setup={setup}
+              history={history}
+              onMove={(id, dir) => setup.plan && updatePlan(movePlannedSession(setup.plan, history, id, dir))}
+              onToggleSkip={(id) => setup.plan && updatePlan({ ...setup.plan, sessions: setup.plan.sessions.map(p => (p.id === id ? { ...p, skipped: !p.skipped || undefined } : p)) })}
+              onStart={startPlannedSession}
+              onOpen={(sessionId) => setActiveId(sessionId)}
+            />
+          ) : (
+            <div style={styles.note}>Plan 4–8 weeks ahead: volume builds week to week, the last week deloads, and upcoming sessions update as you log.</div>
+          )}
+        </section>
+      )}
+
+      {/* PAIN */}
+      {setup && (
+        <section style={styles.card}>
+          <div style={styles.cardTitle}>Pain & injuries</div>
+          <PainFlagsEditor flags={setup.painFlags ?? []} onChange={updatePainFlags} />
+        </section>
+      )}
+
+      {/* LIVE */}
+      {liveMode && active && (
+        <LiveWorkout session={active} units={units} onUpdateSet={updateSet} onExit={leaveLiveWorkout} />
+      )}
+
       {/* TODAY */}
       <section style={styles.card}>
-        <div style={styles.cardTitle}>Today’s Program</div>
-{today && (
-  <div style={{ marginBottom: 12, padding: 12, borderRadius: 12, background: 'rgba(0,0,0,0.04)' }}>
-    <div style={{ fontWeight: 700, marginBottom: 6 }}>
-      Why this workout?
-    </div>
-    <div style={{ fontSize: 13, opacity: 0.85 }}>
-      This is a <strong>{today.dayType}</strong> day based on your recent training history.
-  {history.length > 1 && (
-    <>
-      {' '}Your last workout was a <strong>{history[1].dayType}</strong> session
-      {' '}({Math.max(
-        1,
-        Math.round(
-          (Date.now() - new Date(history[1].dateISO).getTime()) /
-            (1000 * 60 * 60 * 24)
-        )
-      )} days ago), rated difficulty {history[1].difficulty}/5.
-    </>
-  )}
-  {' '}Today’s weights and volume were adjusted using that performance along with
-  your current energy level ({today.energy}/5) to support steady progress without
-  overtraining.
-    </div>
-  </div>
-)}
+        {active && !isSameDay(active.dateISO, new Date().toISOString()) ? (
+          <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginBottom: 10 }}>
+            <div style={{ ...styles.cardTitle, marginBottom: 0 }}>Session — {formatDate(active.dateISO)}</div>
+            <button style={styles.btnSecondary} onClick={() => setActiveId(null)}>Back to today</button>
+          </div>
+        ) : (
+          <div style={styles.cardTitle}>Today’s Program</div>
+        )}
+        {active && <WorkoutExplanation session={active} previous={previous} setup={setup} />}
+        {active?.retest && setup && (
+          <RetestResults key={active.id} setup={setup} session={active} onSave={(accepted, recalculate) => saveRetest(active, accepted, recalculate)} />
+        )}
+        {active && commentsFor(coaching, active).length > 0 && (
+          <div style={{ ...styles.note, marginBottom: 10 }}>
+            {commentsFor(coaching, active).map(c => (
+              <div key={c.id}><b>{c.coach}</b> ({formatDate(c.createdAtISO)}): {c.text}</div>
+            ))}
+          </div>
+        )}
 
-        {!today ? (
-          <div style={styles.note}>No workout generated for today yet. Click “Generate today’s workout”.</div>
+        {!active ? (
+          retestLifts.length > 0 && !assigned ? (
+            <div style={styles.note}>
+              A 5RM retest is due for {retestLifts.join(', ')}.{' '}
+              <button style={styles.btnSecondary} onClick={() => startRetest(retestLifts)}>Start retest day</button>
+            </div>
+          ) : assigned ? (
+            <div style={styles.note}>
+              Your coach {assigned.coach} set your next workout: {assigned.dayName}. Click “Generate today’s workout” to start it.
+              {assigned.note && <div style={{ marginTop: 6 }}>“{assigned.note}”</div>}
+              <button style={{ ...styles.btnSecondary, marginTop: 8 }} onClick={() => dismissAssignment(assigned.id)}>Dismiss</button>
+            </div>
+          ) : (
+            <div style={styles.note}>No workout generated for today yet. Click “Generate today’s workout”.</div>
+          )
         ) : (
           <>
             <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 10 }}>
-              <Pill>Day: {today.dayType}</Pill>
-              <Pill>Muscles: {today.muscleGroups.join(', ')}</Pill>
-              <Pill>~60 min</Pill>
+              {!liveMode && (
+                <button style={styles.btn} onClick={startLiveWorkout}>{active.startedAtISO ? 'Resume live workout' : 'Start live workout'}</button>
+              )}
+              <Pill>Day: {active.dayType}</Pill>
+              <Pill>Muscles: {active.muscleGroups.join(', ')}</Pill>
+              <Pill>
+                {active.durationSec
+                  ? formatDuration(active.durationSec)
+                  : `~${estimateWorkoutMinutes(active.workout)} min${active.timeBudgetMin ? ` of ${active.timeBudgetMin}` : ''}`}
+              </Pill>
 <Pill>
-  Recommended intensity: {today.energy <= 2 || today.difficulty >= 4 ? 'Recovery' : today.energy >= 4 && today.difficulty <= 2 ? 'High' : 'Moderate'}
+  Recommended intensity: {active.deload ? 'Deload' : active.readiness ? (active.readiness.score >= 80 ? 'High' : active.readiness.score >= 60 ? 'Moderate' : 'Recovery') : active.energy <= 2 || active.difficulty >= 4 ? 'Recovery' : active.energy >= 4 && active.difficulty <= 2 ? 'High' : 'Moderate'}
 </Pill>
 
             </div>
 
             <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', marginBottom: 12 }}>
+              <FieldInline label="Date">
+                <input
+                  style={{ ...styles.inputSmall, width: 150 }}
+                  type="date"
+                  value={dateInputValue(active.dateISO)}
+                  onChange={(e) => e.target.value && updateActive({ dateISO: withLocalDate(active.dateISO, e.target.value) })}
+                />
+              </FieldInline>
               <FieldInline label="Energy (1-5)">
-                <input style={styles.inputSmall} type="number" min={1} max={5} value={today.energy} onChange={(e) => updateToday({ energy: clamp(Number(e.target.value), 1, 5) })} />
+                <input style={styles.inputSmall} type="number" min={1} max={5} value={active.energy} onChange={(e) => updateActive({ energy: clamp(Number(e.target.value), 1, 5) })} />
               </FieldInline>
               <FieldInline label="Difficulty (1-5)">
-                <input style={styles.inputSmall} type="number" min={1} max={5} value={today.difficulty} onChange={(e) => updateToday({ difficulty: clamp(Number(e.target.value), 1, 5) })} />
+                <input style={styles.inputSmall} type="number" min={1} max={5} value={active.difficulty} onChange={(e) => updateActive({ difficulty: clamp(Number(e.target.value), 1, 5) })} />
               </FieldInline>
               <FieldInline label="Sleep (hrs)">
-                <input style={styles.inputSmall} type="number" min={0} max={12} value={today.sleepHours ?? ''} onChange={(e) => updateToday({ sleepHours: e.target.value === '' ? undefined : Number(e.target.value) })} />
+                <input style={styles.inputSmall} type="number" min={0} max={12} value={active.sleepHours ?? ''} onChange={(e) => updateActive({ sleepHours: e.target.value === '' ? undefined : Number(e.target.value) })} />
+              </FieldInline>
+              <FieldInline label={`Bodyweight (${units})`}>
+                <input
+                  style={styles.inputSmall}
+                  type="number"
+                  min={0}
+                  value={active.bodyweightLb !== undefined ? displayWeight(active.bodyweightLb, units) : ''}
+                  onChange={(e) => updateActive({ bodyweightLb: e.target.value === '' ? undefined : toLb(Number(e.target.value), units) })}
+                />
               </FieldInline>
             </div>
 
@@ -478,21 +1284,72 @@ export default function Page() {
                 <div>Exercise</div>
                 <div>Sets</div>
                 <div>Reps</div>
-                <div>Target (lb)</div>
+                <div>Target ({setup?.units ?? 'lb'})</div>
               </div>
 
-              {today.workout.map(ex => (
+              {active.workout.map(ex => (
                 <div key={ex.id} style={styles.tableRow}>
                   <div>
                     <div style={{ fontWeight: 700 }}>{ex.name}</div>
                     <div style={styles.muted}>{ex.muscleGroups.join(', ')}</div>
+                    {ex.notes && <div style={styles.muted}>{ex.notes}</div>}
+                    {ex.warmups && ex.warmups.length > 0 && (
+                      <div style={styles.muted}>
+                        Warm-up: {ex.warmups.map(w => `${displayWeight(w.weightLb, units)}×${w.reps}`).join(', ')}
+                      </div>
+                    )}
+                    {setup && alternativesFor(ex.catalogId, setup.equipment).length > 0 && (
+                      <select style={{ ...styles.inputSmall, width: 180, marginTop: 6 }} value="" onChange={(e) => swapExercise(ex, e.target.value)}>
+                        <option value="">Swap…</option>
+                        {alternativesFor(ex.catalogId, setup.equipment).map(alt => <option key={alt.id} value={alt.id}>{alt.name}</option>)}
+                      </select>
+                    )}
                   </div>
-                  <div>{ex.sets}</div>
-                  <div>{ex.reps}</div>
-                  <div>{ex.targetWeightLb ?? '—'}</div>
+                  {editingWorkout ? (
+                    <>
+                      <div>
+                        <input style={styles.inputSmall} type="number" min={1} value={ex.sets} onChange={(e) => updateExercise(ex, { sets: Math.max(1, Number(e.target.value)) })} />
+                      </div>
+                      <div>
+                        <input style={styles.inputSmall} value={ex.reps} onChange={(e) => updateExercise(ex, { reps: e.target.value })} />
+                      </div>
+                      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                        <input
+                          style={styles.inputSmall}
+                          type="number"
+                          value={ex.targetWeightLb !== undefined ? displayWeight(ex.targetWeightLb, units) : ''}
+                          onChange={(e) => updateExercise(ex, { targetWeightLb: e.target.value === '' ? undefined : toLb(Number(e.target.value), units) })}
+                        />
+                        <button style={styles.btnSecondary} onClick={() => removeExercise(ex)} title="Remove exercise">✕</button>
+                      </div>
+                    </>
+                  ) : (
+                    <>
+                      <div>{ex.sets}</div>
+                      <div>{ex.reps}</div>
+                      <div>
+                        {ex.targetWeightLb && setup ? displayWeight(ex.targetWeightLb, setup.units) : '—'}
+                        {ex.targetWeightLb && setup && CATALOG_BY_ID.get(ex.catalogId)?.equipment.includes('barbell') && (
+                          <div style={styles.muted}>{describePlates(setup.plates, ex.targetWeightLb)}</div>
+                        )}
+                      </div>
+                    </>
+                  )}
                 </div>
               ))}
             </div>
+
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginTop: 10 }}>
+              <button style={styles.btnSecondary} onClick={() => setEditingWorkout(!editingWorkout)}>
+                {editingWorkout ? 'Done editing' : 'Edit workout'}
+              </button>
+              {editingWorkout && (
+                <select style={{ ...styles.inputSmall, width: 220 }} value="" onChange={(e) => addExercise(e.target.value)}>
+                  <option value="">+ Add exercise…</option>
+                  {EXERCISE_CATALOG.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </select>
+              )}
+            </div>
           </>
         )}
       </section>
@@ -500,46 +1357,84 @@ export default function Page() {
       {/* LOGGER */}
       <section style={styles.card}>
         <div style={styles.cardTitle}>Logger</div>
-        {!today ? (
+        {!active ? (
           <div style={styles.note}>Generate today’s workout to log it.</div>
         ) : (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 12 }}>
-            {today.workout.map(ex => {
-              const log = today.logs.find(l => l.exerciseId === ex.id);
+            {active.workout.map(ex => {
+              const log = active.logs.find(l => l.exerciseId === ex.id);
+              const sets = log?.sets ?? emptySets(ex);
               return (
                 <div key={ex.id} style={styles.logRow}>
                   <div style={{ flex: 2 }}>
                     <div style={{ fontWeight: 700 }}>{ex.name}</div>
                     <div style={styles.muted}>
-                      {ex.sets} × {ex.reps} {ex.targetWeightLb ? ` @ ${ex.targetWeightLb} lb target` : ''}
+                      {ex.sets} × {ex.reps} {ex.targetWeightLb ? ` @ ${formatWeight(ex.targetWeightLb, units)} target` : ''}
                     </div>
+                    {setup && (
+                      <button style={{ ...styles.btnSecondary, marginTop: 6, padding: '4px 8px', fontSize: 12 }} onClick={() => toggleExercisePain(ex)}>
+                        {painfulNow.has(ex.catalogId) ? 'Painful · clear' : 'Mark painful'}
+                      </button>
+                    )}
                   </div>
-                  <div style={{ display: 'flex', gap: 10, flex: 3, flexWrap: 'wrap' }}>
-                    <FieldInline label="Actual lb">
-                      <input
-                        style={styles.inputSmall}
-                        type="number"
-                        value={log?.actualWeightLb ?? ''}
-                        onChange={(e) => updateExerciseLog(ex.id, { actualWeightLb: e.target.value === '' ? undefined : Number(e.target.value) })}
-                      />
-                    </FieldInline>
-                    <FieldInline label="Reps (e.g. 10,9,8)">
-                      <input
-                        style={styles.inputSmallWide}
-                        value={log?.actualReps ?? ''}
-                        onChange={(e) => updateExerciseLog(ex.id, { actualReps: e.target.value })}
-                      />
-                    </FieldInline>
-                    <FieldInline label="RPE (1-10)">
-                      <input
-                        style={styles.inputSmall}
-                        type="number"
-                        min={1}
-                        max={10}
-                        value={log?.rpe ?? ''}
-                        onChange={(e) => updateExerciseLog(ex.id, { rpe: e.target.value === '' ? undefined : clamp(Number(e.target.value), 1, 10) })}
-                      />
-                    </FieldInline>
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 8, flex: 5 }}>
+                    {sets.map((st, i) => {
+                      const target = setTarget(ex, sets, i);
+                      const warmupsBefore = sets.slice(0, i).filter(x => x.type === 'warmup').length;
+                      return (
+                        <div key={i} style={{ ...styles.setRow, opacity: st.type === 'warmup' ? 0.75 : 1 }}>
+                          <div style={{ fontWeight: 700, width: 48 }}>
+                            {st.type === 'warmup' ? `W${warmupsBefore + 1}` : `Set ${i - warmupsBefore + 1}`}
+                          </div>
+                          <select style={styles.inputSmall} value={st.type} onChange={(e) => updateSet(ex, i, { type: e.target.value as SetType })}>
+                            {SET_TYPES.map(t => <option key={t} value={t}>{t}</option>)}
+                          </select>
+                          <FieldInline label={units}>
+                            <input
+                              style={styles.inputSmall}
+                              type="number"
+                              value={st.weightLb !== undefined ? displayWeight(st.weightLb, units) : ''}
+                              placeholder={target.weightLb ? String(displayWeight(target.weightLb, units)) : ''}
+                              onChange={(e) => updateSet(ex, i, { weightLb: e.target.value === '' ? undefined : toLb(Number(e.target.value), units) })}
+                            />
+                          </FieldInline>
+                          <FieldInline label="Reps">
+                            <input
+                              style={styles.inputSmall}
+                              type="number"
+                              min={0}
+                              value={st.reps ?? ''}
+                              placeholder={st.type === 'warmup' && target.reps !== undefined ? String(target.reps) : ''}
+                              onChange={(e) => updateSet(ex, i, { reps: e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)) })}
+                            />
+                          </FieldInline>
+                          <FieldInline label="RPE">
+                            <input
+                              style={styles.inputSmall}
+                              type="number"
+                              min={1}
+                              max={10}
+                              value={st.rpe ?? ''}
+                              onChange={(e) => updateSet(ex, i, { rpe: e.target.value === '' ? undefined : clamp(Number(e.target.value), 1, 10) })}
+                            />
+                          </FieldInline>
+                          <FieldInline label="RIR">
+                            <input
+                              style={styles.inputSmall}
+                              type="number"
+                              min={0}
+                              max={10}
+                              value={st.rir ?? ''}
+                              onChange={(e) => updateSet(ex, i, { rir: e.target.value === '' ? undefined : clamp(Number(e.target.value), 0, 10) })}
+                            />
+                          </FieldInline>
+                          <button style={styles.btnSecondary} onClick={() => removeSet(ex, i)} title="Remove set">✕</button>
+                        </div>
+                      );
+                    })}
+                    <div>
+                      <button style={styles.btnSecondary} onClick={() => addSet(ex)}>+ Add set</button>
+                    </div>
                   </div>
                 </div>
               );
@@ -551,29 +1446,459 @@ export default function Page() {
       {/* HISTORY */}
       <section style={styles.card}>
         <div style={styles.cardTitle}>Recent History</div>
+        {setup && setup.split.days.length > 0 && (
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginBottom: 12 }}>
+            {!backfill ? (
+              <button style={styles.btnSecondary} onClick={() => setBackfill({ date: '', dayId: setup.split.days[0].id })}>
+                + Log a past session
+              </button>
+            ) : (
+              <>
+                <input style={{ ...styles.inputSmall, width: 150 }} type="date" value={backfill.date} onChange={(e) => setBackfill({ ...backfill, date: e.target.value })} />
+                <select style={{ ...styles.inputSmall, width: 180 }} value={backfill.dayId} onChange={(e) => setBackfill({ ...backfill, dayId: e.target.value })}>
+                  {setup.split.days.map(d => <option key={d.id} value={d.id}>{d.name}</option>)}
+                </select>
+                <button style={styles.btn} disabled={!backfill.date} onClick={addPastSession}>Add session</button>
+                <button style={styles.btnSecondary} onClick={() => setBackfill(null)}>Cancel</button>
+              </>
+            )}
+          </div>
+        )}
         {history.length === 0 ? (
           <div style={styles.note}>No history yet. Load demo data or generate today’s workout.</div>
         ) : (
           <div style={{ display: 'flex', flexDirection: 'column', gap: 10 }}>
-            {history.slice(0, 10).map(s => (
-              <div key={s.id} style={styles.historyRow}>
+            {(showAllHistory ? history : history.slice(0, 10)).map(s => (
+              <div key={s.id} style={s.id === active?.id ? styles.historyRowActive : styles.historyRow}>
                 <div style={{ fontWeight: 700 }}>{formatDate(s.dateISO)} — {s.dayType}</div>
-                <div style={styles.muted}>Energy {s.energy}/5 · Difficulty {s.difficulty}/5 · {s.muscleGroups.join(', ')}</div>
+                <div style={styles.muted}>
+                  Energy {s.energy}/5 · Difficulty {s.difficulty}/5{s.durationSec ? ` · ${formatDuration(s.durationSec)}` : ''} · {s.muscleGroups.join(', ')}
+                </div>
+                {prsBySession.get(s.id)?.map((pr, i) => (
+                  <div key={i} style={styles.prBadge}>
+                    PR · {pr.exerciseName} {formatWeight(pr.weightLb, units)} × {pr.reps} (was {formatWeight(pr.previousLb, units)})
+                  </div>
+                ))}
+                <div style={{ display: 'flex', gap: 8, marginTop: 8 }}>
+                  <button style={styles.btnSecondary} disabled={s.id === active?.id} onClick={() => openSession(s)}>Open</button>
+                  <button style={styles.btnSecondary} onClick={() => copySession(s)}>Duplicate</button>
+                  <button style={styles.btnSecondary} onClick={() => deleteSession(s)}>Delete</button>
+                </div>
               </div>
             ))}
+            {history.length > 10 && (
+              <div>
+                <button style={styles.btnSecondary} onClick={() => setShowAllHistory(!showAllHistory)}>
+                  {showAllHistory ? 'Show recent only' : `Show all ${history.length} sessions`}
+                </button>
+              </div>
+            )}
           </div>
         )}
       </section>
 
-      <footer style={styles.footer}>
-        Demo: Adaptive daily strength training MVP with workout generation, logging, and progression.
-      </footer>
-    </div>
-  );
-}
-
-function isSameDay(aISO: string, bISO: string) {
-  const a = new Date(aISO);
+      {/* ANALYTICS */}
+      <section style={styles.card}>
+        <div style={styles.cardTitle}>Progress</div>
+        {LIFT_KEYS.every(k => e1RMs[k].length === 0) ? (
+          <div style={styles.note}>Log some working sets to see estimated 1RM trends.</div>
+        ) : (
+          <>
+            <div style={{ fontWeight: 700 }}>Estimated 1RM ({units})</div>
+            <LineChart
+              series={LIFT_KEYS.filter(k => e1RMs[k].length > 0).map(k => ({
+                label: k.toUpperCase(),
+                color: LIFT_COLORS[k],
+                points: e1RMs[k].map(p => ({ t: p.t, value: fromLb(p.value, units) })),
+              }))}
+            />
+          </>
+        )}
+
+        <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginTop: 16 }}>
+          <div style={{ fontWeight: 700 }}>Weekly volume by muscle</div>
+          <select style={{ ...styles.inputSmall, width: 130 }} value={volumeMetric} onChange={(e) => setVolumeMetric(e.target.value as 'hardSets' | 'tonnage')}>
+            <option value="hardSets">Hard sets</option>
+            <option value="tonnage">Tonnage ({units})</option>
+          </select>
+        </div>
+        {volume.length === 0 ? (
+          <div style={styles.note}>No logged sets yet.</div>
+        ) : (
+          <VolumeTable weeks={volume} metric={volumeMetric} units={units} />
+        )}
+
+        {setup && (
+          <>
+            <div style={{ display: 'flex', gap: 10, alignItems: 'center', marginTop: 16, flexWrap: 'wrap' }}>
+              <div style={{ fontWeight: 700 }}>Bodyweight ({units})</div>
+              <input
+                style={{ ...styles.inputSmall, width: 90 }}
+                type="number"
+                min={0}
+                placeholder={String(displayWeight(strength?.bodyweightLb ?? setup.weightLb, units))}
+                value={bodyweightDraft}
+                onChange={(e) => setBodyweightDraft(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && logBodyweight()}
+              />
+              <button style={styles.btnSecondary} disabled={!(Number(bodyweightDraft) > 0)} onClick={logBodyweight}>Log weigh-in</button>
+            </div>
+            {bodyweight.length === 0 ? (
+              <div style={styles.note}>Log a weigh-in here or on a session to see the trend.</div>
+            ) : (
+              <LineChart series={[{ label: 'Bodyweight', color: '#6b7280', points: bodyweight.map(p => ({ t: p.t, value: fromLb(p.value, units) })) }]} />
+            )}
+            {(setup.bodyweightLog?.length ?? 0) > 0 && (
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 6 }}>
+                {setup.bodyweightLog!.slice(0, 5).map(e => (
+                  <div key={e.dateISO} style={styles.setRow}>
+                    <Pill>{formatDate(e.dateISO)}: {formatWeight(e.weightLb, units)}</Pill>
+                    <button style={styles.btnSecondary} onClick={() => removeBodyweightEntry(e.dateISO)} title="Remove weigh-in">✕</button>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {strength && (
+          <>
+            <div style={{ fontWeight: 700, marginTop: 16 }}>Relative strength at {formatWeight(strength.bodyweightLb, units)}</div>
+            <div style={{ ...styles.table, marginTop: 6 }}>
+              <div style={styles.tableHead}>
+                <div>Lift</div>
+                <div>e1RM</div>
+                <div>× BW</div>
+                <div>Tier</div>
+              </div>
+              {strength.lifts.map(l => (
+                <div key={l.lift} style={styles.tableRow}>
+                  <div>{l.lift.toUpperCase()}</div>
+                  <div>{formatWeight(l.e1RMLb, units)}{l.source === '5RM' ? ' (5RM)' : ''}</div>
+                  <div>{l.multiple.toFixed(2)}</div>
+                  <div>
+                    {l.tier ?? '—'}
+                    {l.next && <span style={styles.muted}> · {l.next.tier} at {formatWeight(l.next.e1RMLb, units)}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {strength.sex ? (
+              <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 8 }}>
+                <Pill>Total {formatWeight(strength.totalLb, units)}</Pill>
+                <Pill>DOTS {strength.dots!.toFixed(1)}</Pill>
+                <Pill>Wilks {strength.wilks!.toFixed(1)}</Pill>
+              </div>
+            ) : (
+              <div style={styles.note}>DOTS, Wilks and tiers use male or female coefficients; set gender to Male or Female in setup to see them.</div>
+            )}
+          </>
+        )}
+
+        {setup?.baselineLog && setup.baselineLog.length > 0 && (
+          <>
+            <div style={{ fontWeight: 700, marginTop: 16 }}>5RM baselines</div>
+            <div style={{ ...styles.table, marginTop: 6 }}>
+              <div style={styles.tableHead}>
+                <div>Date</div>
+                <div>Lift</div>
+                <div>5RM</div>
+                <div>Why</div>
+              </div>
+              {setup.baselineLog.map(b => (
+                <div key={b.id} style={styles.tableRow}>
+                  <div>{formatDate(b.dateISO)}</div>
+                  <div>{b.lift.toUpperCase()}</div>
+                  <div>{b.fromLb !== undefined ? `${formatWeight(b.fromLb, units)} → ` : ''}{formatWeight(b.toLb, units)}</div>
+                  <div>
+                    {b.reason}
+                    {b.recalculate && <span style={styles.muted}> · loads restarted from it</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+      </section>
+
+      {/* COACHING */}
+      {account && (
+        <section style={styles.card}>
+          <div style={styles.cardTitle}>Coaching</div>
+          <CoachingPanel key={account} />
+        </section>
+      )}
+
+      {/* DATA */}
+      <section style={styles.card}>
+        <div style={styles.cardTitle}>Data & backups</div>
+        <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+          <button style={styles.btn} onClick={downloadBackup}>Download backup</button>
+          <button style={styles.btnSecondary} disabled={history.length === 0} onClick={downloadSetsCSV}>Export sets (CSV)</button>
+          <button
+            style={styles.btnSecondary}
+            disabled={history.length === 0 && !setup?.plan}
+            title="Past sessions and the training block's upcoming days, with exercises and targets"
+            onClick={downloadCalendar}
+          >
+            Export calendar (.ics)
+          </button>
+          <label
+            style={demoMode ? { ...styles.btnSecondary, opacity: 0.4, cursor: 'default' } : styles.btnSecondary}
+            title={demoMode ? 'Leave demo mode first' : undefined}
+          >
+            Restore from file…
+            <input
+              type="file"
+              disabled={demoMode}
+              accept="application/json,.json"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) chooseRestoreFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          <label
+            style={demoMode ? { ...styles.btnSecondary, opacity: 0.4, cursor: 'default' } : styles.btnSecondary}
+            title={demoMode ? 'Leave demo mode first' : undefined}
+          >
+            Import CSV…
+            <input
+              type="file"
+              disabled={demoMode}
+              accept="text/csv,.csv"
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) chooseImportFile(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+
+        {restoreError && <div style={styles.warning}>Could not restore {restoreError}</div>}
+
+        {pendingRestore && (() => {
+          const current = describeState({ setup, history });
+          const incoming = describeState(pendingRestore.state);
+          return (
+            <div style={styles.preview}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}>
+                Restore {pendingRestore.fileName}?
+                {pendingRestore.fromVersion < SCHEMA_VERSION && <span style={styles.muted}> (upgraded from schema v{pendingRestore.fromVersion})</span>}
+              </div>
+              <div style={styles.previewGrid}>
+                <div />
+                <div style={{ fontWeight: 700 }}>Current (will be replaced)</div>
+                <div style={{ fontWeight: 700 }}>Backup</div>
+                <div>Athlete</div><div>{current.name}</div><div>{incoming.name}</div>
+                <div>Sessions</div><div>{current.sessions}</div><div>{incoming.sessions}</div>
+                <div>Dates</div><div>{current.range}</div><div>{incoming.range}</div>
+              </div>
+              <div style={{ display: 'flex', gap: 10, marginTop: 10 }}>
+                <button style={styles.btn} disabled={demoMode} title={demoMode ? 'Leave demo mode first' : undefined} onClick={confirmRestore}>
+                  Overwrite with backup
+                </button>
+                <button style={styles.btnSecondary} onClick={() => setPendingRestore(null)}>Cancel</button>
+              </div>
+            </div>
+          );
+        })()}
+
+        {pendingImport && importPreview && (() => {
+          const { options } = pendingImport;
+          const duplicates = importPreview.ok ? new Set(importPreview.duplicateIds) : new Set<string>();
+          const toImport = importPreview.ok
+            ? importPreview.sessions.filter(sess => pendingImport.includeDuplicates || !duplicates.has(sess.id))
+            : [];
+          const custom = importPreview.ok ? importPreview.exercises.filter(x => x.catalogId === null) : [];
+          return (
+            <div style={styles.preview}>
+              <div style={{ fontWeight: 700, marginBottom: 6 }}>Import {pendingImport.fileName}</div>
+              <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+                <label>
+                  Layout{' '}
+                  <select
+                    style={{ ...styles.inputSmall, width: 170 }}
+                    value={options.format}
+                    onChange={(e) => updateImportOptions({ format: e.target.value as ImportFormat })}
+                  >
+                    {Object.entries(IMPORT_FORMATS).map(([f, label]) => <option key={f} value={f}>{label}</option>)}
+                  </select>
+                </label>
+                <label>
+                  Weights in{' '}
+                  <select
+                    style={{ ...styles.inputSmall, width: 70 }}
+                    value={options.units}
+                    onChange={(e) => updateImportOptions({ units: e.target.value as Units })}
+                  >
+                    <option value="lb">lb</option>
+                    <option value="kg">kg</option>
+                  </select>
+                </label>
+                <span style={styles.muted}>unless the file says otherwise</span>
+              </div>
+
+              {options.format === 'generic' && (
+                <div style={{ ...styles.previewGrid, gridTemplateColumns: '140px 1fr', marginTop: 10 }}>
+                  {IMPORT_FIELDS.map(({ field, label, required }) => (
+                    <React.Fragment key={field}>
+                      <div>{label}{required && ' *'}</div>
+                      <select
+                        style={{ ...styles.inputSmall, width: 220 }}
+                        value={options.columns?.[field] ?? ''}
+                        onChange={(e) => updateImportOptions({ columns: { ...options.columns, [field]: e.target.value || undefined } })}
+                      >
+                        <option value="">—</option>
+                        {pendingImport.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                      </select>
+                    </React.Fragment>
+                  ))}
+                </div>
+              )}
+
+              {!importPreview.ok ? (
+                <div style={styles.warning}>Can&apos;t read this file: {importPreview.reason}</div>
+              ) : (
+                <>
+                  <div style={{ marginTop: 10 }}>
+                    {importPreview.sessions.length} sessions, {importPreview.exercises.reduce((n, x) => n + x.sets, 0)} sets
+                    {importPreview.sessions.length > 0 && ` · ${describeState({ setup, history: importPreview.sessions }).range}`}
+                  </div>
+
+                  {duplicates.size > 0 && (
+                    <div style={styles.note}>
+                      {duplicates.size} of these look like sessions you already have (same day, mostly the same exercises):{' '}
+                      {importPreview.sessions.filter(sess => duplicates.has(sess.id)).slice(0, 5).map(sess => `${formatDate(sess.dateISO)} ${sess.dayType}`).join(', ')}
+                      {duplicates.size > 5 && '…'}
+                      <label style={{ display: 'block', marginTop: 6 }}>
+                        <input
+                          type="checkbox"
+                          checked={pendingImport.includeDuplicates}
+                          onChange={(e) => setPendingImport({ ...pendingImport, includeDuplicates: e.target.checked })}
+                        />{' '}
+                        Import them anyway
+                      </label>
+                    </div>
+                  )}
+
+                  {importPreview.exercises.length > 0 && (
+                    <div style={{ marginTop: 10 }}>
+                      <div style={{ fontWeight: 700 }}>Exercises</div>
+                      {custom.length > 0 && (
+                        <div style={styles.muted}>
+                          {custom.length} not in our catalog; they come in as custom exercises unless you pick a match. Custom exercises don&apos;t count toward a main lift.
+                        </div>
+                      )}
+                      <div style={{ ...styles.previewGrid, gridTemplateColumns: '1fr 1fr 60px', marginTop: 6 }}>
+                        {[...importPreview.exercises].sort((a, b) => Number(a.catalogId !== null) - Number(b.catalogId !== null)).map(x => (
+                          <React.Fragment key={x.name}>
+                            <div>{x.name}</div>
+                            <select
+                              style={{ ...styles.inputSmall, width: '100%' }}
+                              value={x.catalogId ?? CUSTOM_EXERCISE}
+                              onChange={(e) => updateImportOptions({ mapping: { ...options.mapping, [x.name]: e.target.value } })}
+                            >
+                              <option value={CUSTOM_EXERCISE}>{x.matched ? 'Keep as custom' : 'Not recognised: keep as custom'}</option>
+                              {EXERCISE_CATALOG.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                            </select>
+                            <div style={styles.muted}>{x.sets} sets</div>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {importPreview.skipped.length > 0 && (
+                    <div style={{ ...styles.muted, marginTop: 10 }}>
+                      {importPreview.skipped.length} rows skipped:{' '}
+                      {importPreview.skipped.slice(0, 3).map(r => `line ${r.line}: ${r.reason}`).join('; ')}
+                      {importPreview.skipped.length > 3 && '…'}
+                    </div>
+                  )}
+                </>
+              )}
+
+              <div style={{ display: 'flex', gap: 10, marginTop: 10 }}>
+                <button
+                  style={styles.btn}
+                  disabled={demoMode || toImport.length === 0}
+                  title={demoMode ? 'Leave demo mode first' : undefined}
+                  onClick={() => confirmImport(toImport)}
+                >
+                  Import {toImport.length} sessions
+                </button>
+                <button style={styles.btnSecondary} onClick={() => setPendingImport(null)}>Cancel</button>
+              </div>
+            </div>
+          );
+        })()}
+
+        {quarantine.length > 0 && (
+          <div style={{ marginTop: 12 }}>
+            <div style={{ fontWeight: 700 }}>Set-aside data</div>
+            <div style={styles.muted}>Saved data that could not be loaded, was reset or was replaced. Download it to inspect or restore it.</div>
+            <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginTop: 8 }}>
+              {quarantine.map(q => (
+                <div key={q.key} style={styles.historyRow}>
+                  <div style={{ fontWeight: 700 }}>{new Date(q.dateISO).toLocaleString()}</div>
+                  <div style={styles.muted}>{q.reason}</div>
+                  <div style={{ display: 'flex', gap: 10, marginTop: 8 }}>
+                    <button
+                      style={styles.btnSecondary}
+                      onClick={() => {
+                        // hand back the original payload untouched, parsed if it still parses
+                        let data: unknown = q.raw;
+                        try { data = JSON.parse(q.raw); } catch { /* keep as string */ }
+                        downloadJSON(`flex-set-aside-${q.dateISO.slice(0, 10)}.json`, data);
+                      }}
+                    >
+                      Download
+                    </button>
+                    <button
+                      style={styles.btnSecondary}
+                      disabled={demoMode}
+                      title={demoMode ? 'Leave demo mode first' : undefined}
+                      onClick={() => chooseQuarantineRestore(q)}
+                    >
+                      Restore
+                    </button>
+                    <button style={styles.btnSecondary} onClick={() => discardQuarantine(q)}>Delete</button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      <footer style={styles.footer}>
+        Demo: Adaptive daily strength training MVP with workout generation, logging, and progression.
+      </footer>
+    </div>
+  );
+}
+
+// yyyy-mm-dd in local time, for <input type="date">
+function dateInputValue(iso: string) {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Move `iso` to another local calendar date, keeping its time of day
+function withLocalDate(iso: string, date: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  const next = new Date(iso);
+  next.setFullYear(y, m - 1, d);
+  return next.toISOString();
+}
+
+function isSameDay(aISO: string, bISO: string) {
+  const a = new Date(aISO);
   const b = new Date(bISO);
   return a.getFullYear() === b.getFullYear() && a.getMonth() === b.getMonth() && a.getDate() === b.getDate();
 }
@@ -596,6 +1921,920 @@ function FieldInline({ label, children }: { label: string; children: React.React
   );
 }
 
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+const PATTERNS = Array.from(new Set(EXERCISE_CATALOG.map(c => c.pattern)));
+
+function SplitEditor({ split, equipment, onChange }: { split: Split; equipment: Equipment[]; onChange: (split: Split) => void }) {
+  function updateDay(index: number, patch: Partial<SplitDay>) {
+    onChange({ ...split, days: split.days.map((d, i) => (i === index ? { ...d, ...patch } : d)) });
+  }
+
+  function updateExercise(day: SplitDay, dayIndex: number, exIndex: number, patch: Partial<ExerciseTemplate>) {
+    updateDay(dayIndex, { exercises: day.exercises.map((ex, j) => (j === exIndex ? { ...ex, ...patch } : ex)) });
+  }
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 10, marginTop: 10 }}>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <input style={{ ...styles.input, width: 220 }} value={split.name} onChange={(e) => onChange({ ...split, name: e.target.value })} />
+        <select
+          style={{ ...styles.input, width: 220 }}
+          value=""
+          onChange={(e) => {
+            const preset = SPLIT_PRESETS[e.target.value];
+            if (preset) onChange(preset);
+          }}
+        >
+          <option value="">Start from a preset…</option>
+          {Object.entries(SPLIT_PRESETS).map(([key, p]) => <option key={key} value={key}>{p.name}</option>)}
+        </select>
+      </div>
+
+      {split.days.map((day, i) => (
+        <div key={day.id} style={styles.historyRow}>
+          <div style={styles.setRow}>
+            <div style={{ fontWeight: 700, width: 48 }}>Day {i + 1}</div>
+            <input style={{ ...styles.input, width: 200 }} value={day.name} onChange={(e) => updateDay(i, { name: e.target.value })} />
+            <button style={styles.btnSecondary} onClick={() => onChange({ ...split, days: moveItem(split.days, i, i - 1) })} title="Earlier in rotation">↑</button>
+            <button style={styles.btnSecondary} onClick={() => onChange({ ...split, days: moveItem(split.days, i, i + 1) })} title="Later in rotation">↓</button>
+            <button style={styles.btnSecondary} onClick={() => onChange({ ...split, days: split.days.filter((_, j) => j !== i) })} title="Remove day">✕</button>
+          </div>
+
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 8 }}>
+            {day.exercises.map((ex, j) => {
+              const entry = CATALOG_BY_ID.get(ex.catalogId);
+              return (
+                <div key={j} style={styles.setRow}>
+                  <div style={{ flex: 1, minWidth: 180 }}>
+                    {entry?.name ?? ex.catalogId}
+                    {entry?.lift && <span style={styles.muted}> · {entry.lift.toUpperCase()}</span>}
+                    {entry && !hasEquipment(entry, equipment) && (
+                      <span style={styles.muted}> · needs {entry.equipment.filter(e => !equipment.includes(e)).join(', ')}, will be swapped</span>
+                    )}
+                  </div>
+                  <FieldInline label="Sets">
+                    <input style={styles.inputSmall} type="number" min={1} value={ex.sets} onChange={(e) => updateExercise(day, i, j, { sets: Math.max(1, Number(e.target.value)) })} />
+                  </FieldInline>
+                  <FieldInline label="Reps">
+                    <input style={styles.inputSmall} value={ex.reps} onChange={(e) => updateExercise(day, i, j, { reps: e.target.value })} />
+                  </FieldInline>
+                  <button style={styles.btnSecondary} onClick={() => updateDay(i, { exercises: moveItem(day.exercises, j, j - 1) })}>↑</button>
+                  <button style={styles.btnSecondary} onClick={() => updateDay(i, { exercises: moveItem(day.exercises, j, j + 1) })}>↓</button>
+                  <button style={styles.btnSecondary} onClick={() => updateDay(i, { exercises: day.exercises.filter((_, k) => k !== j) })} title="Remove exercise">✕</button>
+                </div>
+              );
+            })}
+            <select
+              style={{ ...styles.input, width: 260 }}
+              value=""
+              onChange={(e) => {
+                const entry = CATALOG_BY_ID.get(e.target.value);
+                if (entry) updateDay(i, { exercises: [...day.exercises, { catalogId: entry.id, sets: entry.sets, reps: entry.reps }] });
+              }}
+            >
+              <option value="">+ Add exercise…</option>
+              {PATTERNS.map(pattern => (
+                <optgroup key={pattern} label={pattern}>
+                  {EXERCISE_CATALOG.filter(c => c.pattern === pattern).map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+                </optgroup>
+              ))}
+            </select>
+          </div>
+        </div>
+      ))}
+
+      <div>
+        <button style={styles.btnSecondary} onClick={() => onChange({ ...split, days: [...split.days, { id: uid('day'), name: `Day ${split.days.length + 1}`, exercises: [] }] })}>
+          + Add day
+        </button>
+      </div>
+    </div>
+  );
+}
+
+type LiveCursor = { exIndex: number; setIndex: number };
+
+// First set with no reps logged, or null when everything is done
+function firstPendingSet(session: Session): LiveCursor | null {
+  for (let exIndex = 0; exIndex < session.workout.length; exIndex++) {
+    const ex = session.workout[exIndex];
+    const sets = session.logs.find(l => l.exerciseId === ex.id)?.sets ?? emptySets(ex);
+    const setIndex = sets.findIndex(st => st.reps === undefined);
+    if (setIndex >= 0) return { exIndex, setIndex };
+  }
+  return null;
+}
+
+function LiveWorkout({ session, units, onUpdateSet, onExit }: {
+  session: Session;
+  units: Units;
+  onUpdateSet: (ex: Exercise, index: number, patch: Partial<SetLog>) => void;
+  onExit: () => void;
+}) {
+  const [now, setNow] = useState(() => Date.now());
+  const [restUntil, setRestUntil] = useState<number | null>(null);
+  const cursor = firstPendingSet(session);
+  const ex = cursor ? session.workout[cursor.exIndex] : null;
+  const sets = ex ? session.logs.find(l => l.exerciseId === ex.id)?.sets ?? emptySets(ex) : [];
+  const current = cursor ? sets[cursor.setIndex] : null;
+  const target = ex && cursor ? setTarget(ex, sets, cursor.setIndex) : null;
+
+  // Pre-fill the inputs with the prescription each time we move to a new set
+  const cursorKey = cursor && ex ? `${ex.id}:${cursor.setIndex}` : '';
+  const [draftKey, setDraftKey] = useState('');
+  const [draft, setDraft] = useState<{ weight: string; reps: string; rpe: string }>({ weight: '', reps: '', rpe: '' });
+  if (cursorKey !== draftKey) {
+    setDraftKey(cursorKey);
+    if (ex && cursor) {
+      const target = setTarget(ex, sets, cursor.setIndex);
+      const weightLb = current?.weightLb ?? target.weightLb;
+      setDraft({
+        weight: weightLb !== undefined ? String(displayWeight(weightLb, units)) : '',
+        reps: target.reps !== undefined ? String(target.reps) : '',
+        rpe: '',
+      });
+    }
+  }
+
+  useEffect(() => {
+    const t = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(t);
+  }, []);
+
+  const elapsed = session.startedAtISO ? (now - Date.parse(session.startedAtISO)) / 1000 : 0;
+  const resting = restUntil !== null && restUntil > now;
+
+  function completeSet(asPrescribed: boolean) {
+    if (!ex || !cursor) return;
+    const target = setTarget(ex, sets, cursor.setIndex);
+    const patch: Partial<SetLog> = asPrescribed
+      ? { weightLb: target.weightLb, reps: target.reps ?? 0 }
+      : {
+          weightLb: draft.weight === '' ? undefined : toLb(Number(draft.weight), units),
+          reps: Math.max(0, Number(draft.reps) || 0),
+          rpe: draft.rpe === '' ? undefined : clamp(Number(draft.rpe), 1, 10),
+        };
+    onUpdateSet(ex, cursor.setIndex, patch);
+    setRestUntil(restEndsAt(ex, current ?? undefined));
+  }
+
+  return (
+    <section style={{ ...styles.card, borderColor: 'rgba(37,99,235,0.5)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+        <div style={styles.cardTitle}>Live workout · {formatDuration(elapsed)}</div>
+        <button style={styles.btnSecondary} onClick={onExit}>{cursor ? 'Pause & exit' : 'Finish'}</button>
+      </div>
+
+      {!cursor || !ex ? (
+        <div style={styles.note}>All sets logged. Nice work — hit Finish to save your time.</div>
+      ) : (
+        <>
+          <div style={{ fontSize: 20, fontWeight: 800 }}>{ex.name}</div>
+          <div style={styles.muted}>
+            Exercise {cursor.exIndex + 1} of {session.workout.length} · Set {cursor.setIndex + 1} of {sets.length}
+            {current && current.type !== 'working' ? ` · ${current.type}` : ''}
+          </div>
+          <div style={{ marginTop: 8, fontSize: 16 }}>
+            Target: <strong>{target?.reps ?? '—'} reps</strong>
+            {target?.weightLb ? <> @ <strong>{formatWeight(target.weightLb, units)}</strong></> : null}
+          </div>
+          {ex.notes && <div style={styles.muted}>{ex.notes}</div>}
+
+          {resting ? (
+            <div style={{ marginTop: 12 }}>
+              <div style={{ fontSize: 32, fontWeight: 800 }}>{formatDuration((restUntil! - now) / 1000)}</div>
+              <div style={styles.muted}>Rest</div>
+              <div style={{ display: 'flex', gap: 10, marginTop: 8 }}>
+                <button style={styles.btnSecondary} onClick={() => setRestUntil(restUntil! + 30_000)}>+30 s</button>
+                <button style={styles.btn} onClick={() => setRestUntil(null)}>Skip rest</button>
+              </div>
+            </div>
+          ) : (
+            <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center', marginTop: 12 }}>
+              <button style={{ ...styles.btn, background: 'rgba(37,99,235,0.12)' }} onClick={() => completeSet(true)}>
+                Done as prescribed
+              </button>
+              <FieldInline label={units}>
+                <input style={styles.inputSmall} type="number" value={draft.weight} onChange={(e) => setDraft({ ...draft, weight: e.target.value })} />
+              </FieldInline>
+              <FieldInline label="Reps">
+                <input style={styles.inputSmall} type="number" min={0} value={draft.reps} onChange={(e) => setDraft({ ...draft, reps: e.target.value })} />
+              </FieldInline>
+              <FieldInline label="RPE">
+                <input style={styles.inputSmall} type="number" min={1} max={10} value={draft.rpe} onChange={(e) => setDraft({ ...draft, rpe: e.target.value })} />
+              </FieldInline>
+              <button style={styles.btn} onClick={() => completeSet(false)}>Log set</button>
+            </div>
+          )}
+        </>
+      )}
+    </section>
+  );
+}
+
+// The block as a calendar: each slot shows what it would prescribe if trained now
+function PlanCalendar({ plan, setup, history, onMove, onToggleSkip, onStart, onOpen }: {
+  plan: Mesocycle;
+  setup: Setup;
+  history: Session[];
+  onMove: (id: string, dir: -1 | 1) => void;
+  onToggleSkip: (id: string) => void;
+  onStart: (p: PlannedSession) => void;
+  onOpen: (sessionId: string) => void;
+}) {
+  const today = dateInputValue(new Date().toISOString());
+  const next = nextPlannedSession(plan, history);
+  const weeks = Array.from({ length: plan.weeks }, (_, i) => i + 1);
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 12, marginTop: 12 }}>
+      {weeks.map(week => (
+        <div key={week}>
+          <div style={{ fontWeight: 700, marginBottom: 6 }}>{blockWeekLabel(plan, week)}</div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+            {plan.sessions.filter(p => p.week === week).map(p => {
+              const done = history.find(h => h.plannedId === p.id);
+              const dayName = setup.split.days.find(d => d.id === p.dayId)?.name ?? 'Removed day';
+              const missed = !done && !p.skipped && dateInputValue(p.dateISO) < today;
+              const preview = done || p.skipped ? [] : previewPlannedSession(setup, history, plan, p);
+              return (
+                <div key={p.id} style={{ ...styles.historyRow, opacity: p.skipped ? 0.5 : 1, borderColor: p.id === next?.id ? '#111' : undefined }}>
+                  <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap' }}>
+                    <div style={{ fontWeight: 700, textDecoration: p.skipped ? 'line-through' : undefined }}>
+                      {formatDate(p.dateISO)} — {dayName}
+                    </div>
+                    {done && <Pill>Done</Pill>}
+                    {missed && <Pill>Missed</Pill>}
+                    <div style={{ flex: 1 }} />
+                    {done ? (
+                      <button style={styles.btnSecondary} onClick={() => onOpen(done.id)}>Open</button>
+                    ) : (
+                      <>
+                        {!p.skipped && <button style={styles.btnSecondary} onClick={() => onStart(p)}>Start</button>}
+                        <button style={styles.btnSecondary} onClick={() => onMove(p.id, -1)} title="Swap with the previous session">↑</button>
+                        <button style={styles.btnSecondary} onClick={() => onMove(p.id, 1)} title="Swap with the next session">↓</button>
+                        <button style={styles.btnSecondary} onClick={() => onToggleSkip(p.id)}>{p.skipped ? 'Unskip' : 'Skip'}</button>
+                      </>
+                    )}
+                  </div>
+                  {preview.length > 0 && (
+                    <div style={styles.muted}>
+                      {preview.map(ex => `${ex.name} ${ex.sets}×${ex.reps}${ex.targetWeightLb ? ` @ ${formatWeight(ex.targetWeightLb, setup.units)}` : ''}`).join(' · ')}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function PlateEditor({ config, onChange }: { config: PlateConfig; onChange: (config: PlateConfig) => void }) {
+  function updatePlate(index: number, patch: Partial<PlateConfig['plates'][number]>) {
+    onChange({ ...config, plates: config.plates.map((p, i) => (i === index ? { ...p, ...patch } : p)) });
+  }
+
+  return (
+    <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', marginTop: 10 }}>
+      <FieldInline label="Bar">
+        <input style={styles.inputSmall} type="number" min={0} value={config.barWeight} onChange={(e) => onChange({ ...config, barWeight: Math.max(0, Number(e.target.value)) })} />
+      </FieldInline>
+      {config.plates.map((p, i) => (
+        <div key={i} style={styles.pill}>
+          <input style={{ ...styles.inputSmall, width: 60 }} type="number" min={0} value={p.weight} onChange={(e) => updatePlate(i, { weight: Math.max(0, Number(e.target.value)) })} />
+          {' × '}
+          <input style={{ ...styles.inputSmall, width: 50 }} type="number" min={0} value={p.pairs} onChange={(e) => updatePlate(i, { pairs: Math.max(0, Math.round(Number(e.target.value))) })} />
+          {' pairs '}
+          <button style={styles.btnSecondary} onClick={() => onChange({ ...config, plates: config.plates.filter((_, j) => j !== i) })} title="Remove plate">✕</button>
+        </div>
+      ))}
+      <button style={styles.btnSecondary} onClick={() => onChange({ ...config, plates: [...config.plates, { weight: 0, pairs: 1 }] })}>+ Plate</button>
+    </div>
+  );
+}
+
+function WarmupEditor({ setup, onChange }: { setup: Setup; onChange: (scheme: WarmupScheme) => void }) {
+  const scheme = setup.warmup ?? DEFAULT_WARMUP;
+  // the steps are typed as text and only applied once they parse
+  const [text, setText] = useState(formatWarmupSteps(scheme.steps));
+  const [textSource, setTextSource] = useState(scheme.steps);
+  if (scheme.steps !== textSource) {
+    setTextSource(scheme.steps);
+    setText(formatWarmupSteps(scheme.steps));
+  }
+  const valid = parseWarmupSteps(text) !== null;
+  const example = warmupSets(setup, setup.fiveRM.squat);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, marginTop: 10 }}>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center' }}>
+        <label style={styles.toggleRow}>
+          <input type="checkbox" checked={scheme.enabled} onChange={(e) => onChange({ ...scheme, enabled: e.target.checked })} />
+          <span>Add warm-up sets</span>
+        </label>
+        <FieldInline label="Empty bar reps">
+          <input style={styles.inputSmall} type="number" min={1} value={scheme.barReps} onChange={(e) => onChange({ ...scheme, barReps: Math.max(1, Math.round(Number(e.target.value))) })} />
+        </FieldInline>
+        <select
+          style={{ ...styles.inputSmall, width: 190 }}
+          value=""
+          onChange={(e) => {
+            const preset = WARMUP_PRESETS[e.target.value];
+            if (preset) onChange({ ...scheme, steps: preset.steps });
+          }}
+        >
+          <option value="">Use a preset…</option>
+          {Object.entries(WARMUP_PRESETS).map(([key, p]) => <option key={key} value={key}>{p.name}</option>)}
+        </select>
+        <FieldInline label="Then (% × reps)">
+          <input
+            style={{ ...styles.inputSmall, width: 180, borderColor: valid ? undefined : '#dc2626' }}
+            value={text}
+            onChange={(e) => {
+              setText(e.target.value);
+              const steps = parseWarmupSteps(e.target.value);
+              if (steps) onChange({ ...scheme, steps });
+            }}
+          />
+        </FieldInline>
+      </div>
+      <div style={styles.muted}>
+        {!valid
+          ? 'Write steps as percent × reps, e.g. 40x5, 60x3, 80x2'
+          : example.length
+            ? `Before a ${formatWeight(setup.fiveRM.squat, setup.units)} squat: ${example.map(w => `${displayWeight(w.weightLb, setup.units)}×${w.reps}`).join(', ')}`
+            : 'No warm-ups'}
+      </div>
+    </div>
+  );
+}
+
+// Add a pain flag for a joint or muscle group; list the current ones with how they affect training
+function PainFlagsEditor({ flags, onChange }: { flags: PainFlag[]; onChange: (flags: PainFlag[]) => void }) {
+  const [draft, setDraft] = useState<{ area: string; side: '' | 'left' | 'right'; severity: PainSeverity; days: number }>({
+    area: 'Shoulder', side: '', severity: 'moderate', days: 7,
+  });
+  const nowISO = new Date().toISOString();
+  const muscles = Array.from(new Set(EXERCISE_CATALOG.flatMap(c => c.muscleGroups))).sort();
+  const shown = flags.filter(f => painFlagStatus(f, nowISO) !== 'cleared');
+
+  function add() {
+    const start = new Date();
+    const until = new Date(start.getTime() + draft.days * DAY_MS);
+    const flag: PainFlag = {
+      id: uid('pain'),
+      area: draft.area,
+      side: draft.side || undefined,
+      severity: draft.severity,
+      startISO: start.toISOString(),
+      untilISO: until.toISOString(),
+    };
+    onChange([...flags.filter(f => painFlagStatus(f, nowISO) !== 'cleared'), flag]);
+  }
+
+  return (
+    <div>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        <select style={{ ...styles.inputSmall, width: 140 }} value={draft.area} onChange={(e) => setDraft({ ...draft, area: e.target.value })}>
+          <optgroup label="Joints">
+            {Object.keys(PAIN_AREAS).map(a => <option key={a} value={a}>{a}</option>)}
+          </optgroup>
+          <optgroup label="Muscles">
+            {muscles.map(m => <option key={m} value={m}>{m}</option>)}
+          </optgroup>
+        </select>
+        <select style={styles.inputSmall} value={draft.side} onChange={(e) => setDraft({ ...draft, side: e.target.value as '' | 'left' | 'right' })}>
+          <option value="">Both / n.a.</option>
+          <option value="left">Left</option>
+          <option value="right">Right</option>
+        </select>
+        <select style={{ ...styles.inputSmall, width: 110 }} value={draft.severity} onChange={(e) => setDraft({ ...draft, severity: e.target.value as PainSeverity })}>
+          {PAIN_SEVERITIES.map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+        <FieldInline label="Days">
+          <input style={styles.inputSmall} type="number" min={1} max={90} value={draft.days} onChange={(e) => setDraft({ ...draft, days: clamp(Number(e.target.value), 1, 90) })} />
+        </FieldInline>
+        <button style={styles.btnSecondary} onClick={add}>Flag</button>
+      </div>
+      <div style={styles.muted}>
+        Mild caps the main lifts at 90%. Moderate caps them at 75% and swaps accessories that load the area. Severe swaps or drops
+        everything that loads it. Loads ease back to normal over {EASE_BACK_DAYS} days once the flag runs out.
+      </div>
+      {shown.length > 0 && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 8 }}>
+          {shown.map(f => {
+            const status = painFlagStatus(f, nowISO);
+            return (
+              <div key={f.id} style={styles.setRow}>
+                <Pill>{painFlagLabel(f)} · {f.severity}</Pill>
+                <span style={styles.muted}>
+                  {status === 'active' ? `until ${formatDate(f.untilISO)}` : `easing back since ${formatDate(f.untilISO)}`}
+                </span>
+                <button style={styles.btnSecondary} onClick={() => onChange(flags.filter(x => x.id !== f.id))} title="Remove flag">✕</button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// One row of the coach's roster, as /api/coach/athletes returns it
+type RosterEntry = { id: string; username: string; summary: AthleteSummary | null };
+
+// Coaching from both sides: who may coach the signed-in account, and the athletes who named it as their coach
+function CoachingPanel() {
+  const [coaches, setCoaches] = useState<string[]>([]);
+  const [coachName, setCoachName] = useState('');
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const open = roster.find(a => a.id === openId);
+
+  const load = useEffectEvent(() => {
+    Promise.all([api<string[]>('/api/coaches'), api<RosterEntry[]>('/api/coach/athletes')])
+      .then(([c, r]) => {
+        setCoaches(c);
+        setRoster(r);
+      })
+      .catch(e => setError((e as Error).message));
+  });
+  useEffect(() => load(), []);
+
+  async function changeCoaches(request: () => Promise<string[]>) {
+    setError(null);
+    try {
+      setCoaches(await request());
+      setCoachName('');
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Your coaches</div>
+      <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', alignItems: 'center' }}>
+        {coaches.map(c => (
+          <span key={c} style={{ display: 'flex', gap: 4, alignItems: 'center' }}>
+            <Pill>{c}</Pill>
+            <button style={styles.btnSecondary} onClick={() => changeCoaches(() => api(`/api/coaches/${encodeURIComponent(c)}`, 'DELETE'))} title="Remove coach">✕</button>
+          </span>
+        ))}
+        <input style={{ ...styles.inputSmall, width: 160 }} placeholder="Coach’s username" value={coachName} onChange={(e) => setCoachName(e.target.value)} />
+        <button style={styles.btnSecondary} disabled={!coachName.trim()} onClick={() => changeCoaches(() => api('/api/coaches', 'POST', { username: coachName.trim() }))}>
+          Add coach
+        </button>
+      </div>
+      <div style={styles.muted}>A coach can see your training, set your next workout and comment on your sessions.</div>
+
+      <div style={{ fontWeight: 700, margin: '14px 0 6px' }}>Athletes you coach</div>
+      {roster.length === 0 ? (
+        <div style={styles.muted}>Nobody has added you as their coach yet.</div>
+      ) : (
+        <div style={styles.table}>
+          <div style={styles.tableHead}>
+            <div>Athlete</div>
+            <div>Last session</div>
+            <div>Readiness</div>
+            <div>Adherence</div>
+          </div>
+          {roster.map(a => (
+            <div key={a.id} style={{ ...styles.tableRow, ...(a.id === openId ? { background: 'rgba(0,0,0,0.04)' } : {}) }}>
+              <div>
+                <button style={a.id === openId ? styles.btn : styles.btnSecondary} onClick={() => setOpenId(a.id === openId ? null : a.id)}>{a.username}</button>
+              </div>
+              <div>{a.summary?.lastSession ? `${a.summary.lastSession.dayType}, ${formatDate(a.summary.lastSession.dateISO)}` : '—'}</div>
+              <div>{a.summary?.readinessScore !== undefined ? `${a.summary.readinessScore}/100` : '—'}</div>
+              <div>
+                {!a.summary
+                  ? '—'
+                  : a.summary.adherence
+                    ? `${a.summary.adherence.done} of ${a.summary.adherence.due} block sessions`
+                    : `${a.summary.sessionsLast28Days} sessions in 28 days`}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+      {open && <AthleteDetail key={open.id} athleteId={open.id} username={open.username} />}
+      {error && <div style={styles.warning}>{error}</div>}
+    </div>
+  );
+}
+
+type AssignmentDraft = { dayName: string; dayId?: string; workout: Exercise[]; note: string };
+
+// What the coach edits before assigning: the workout already waiting, or the one the athlete's planner picks next
+function assignmentDraft(setup: Setup | null, history: Session[], coaching: Coaching): AssignmentDraft | null {
+  const pending = pendingAssignment(coaching, history);
+  if (pending) return { dayName: pending.dayName, dayId: pending.dayId, workout: pending.workout, note: pending.note ?? '' };
+  const planned = setup && planNextSession(setup, history, new Date().toISOString());
+  return planned ? { dayName: planned.dayType, dayId: planned.dayId, workout: planned.workout, note: '' } : null;
+}
+
+// An athlete's training as their coach sees it: set the next workout and comment on recent sessions
+function AthleteDetail({ athleteId, username }: { athleteId: string; username: string }) {
+  const [athlete, setAthlete] = useState<{ setup: Setup | null; history: Session[]; coaching: Coaching } | null>(null);
+  const [draft, setDraft] = useState<AssignmentDraft | null>(null);
+  const [commentDrafts, setCommentDrafts] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+  const base = `/api/coach/athletes/${athleteId}`;
+
+  const load = useEffectEvent(() => {
+    api<{ state: StoredState; coaching: Coaching }>(base)
+      .then(body => {
+        // migrated to the current schema by the server
+        const { setup, history } = body.state;
+        setAthlete({ setup, history, coaching: body.coaching });
+        setDraft(assignmentDraft(setup, history, body.coaching));
+      })
+      .catch(e => setError((e as Error).message));
+  });
+  useEffect(() => load(), []);
+
+  if (!athlete) return error ? <div style={styles.warning}>{error}</div> : <div style={styles.muted}>Loading {username}…</div>;
+  const { setup, history, coaching } = athlete;
+  const units = setup?.units ?? 'lb';
+  const pending = pendingAssignment(coaching, history);
+
+  function updateDraftExercise(ex: Exercise, patch: Partial<Exercise>) {
+    if (!draft) return;
+    const refresh = (w: Exercise) => {
+      if (!('targetWeightLb' in patch)) return w;
+      const trace = w.trace && { ...w.trace, adjustments: w.trace.adjustments?.filter(a => !a.startsWith(HAND_SET)) };
+      const load = patch.targetWeightLb === undefined ? 'cleared' : formatWeight(patch.targetWeightLb, units);
+      const adjusted = withAdjustment({ ...w, trace }, `${HAND_SET} ${load}`);
+      return setup ? withWarmups(setup, adjusted) : adjusted;
+    };
+    setDraft({ ...draft, workout: draft.workout.map(w => (w.id === ex.id ? refresh({ ...w, ...patch }) : w)) });
+  }
+
+  async function assign(body: AssignmentDraft | null) {
+    setError(null);
+    try {
+      const payload = body && { dayName: body.dayName, dayId: body.dayId, workout: body.workout, note: body.note.trim() || undefined };
+      const next = await api<Coaching>(`${base}/assignment`, 'PUT', payload);
+      setAthlete({ setup, history, coaching: next });
+      if (!body) setDraft(assignmentDraft(setup, history, next));
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  async function comment(sessionId: string) {
+    const text = commentDrafts[sessionId]?.trim();
+    if (!text) return;
+    setError(null);
+    try {
+      const added = await api<SessionComment>(`${base}/comments`, 'POST', { sessionId, text });
+      setAthlete({ setup, history, coaching: { ...coaching, comments: [...coaching.comments, added] } });
+      setCommentDrafts({ ...commentDrafts, [sessionId]: '' });
+    } catch (e) {
+      setError((e as Error).message);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 14, padding: 12, borderRadius: 12, background: 'rgba(0,0,0,0.04)' }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>{username}’s next workout</div>
+      {!draft ? (
+        <div style={styles.muted}>{username} hasn’t saved a setup yet, so there’s nothing to plan from.</div>
+      ) : (
+        <>
+          <div style={styles.muted}>
+            {pending ? `Assigned ${formatDate(pending.assignedAtISO)} by ${pending.coach}, not started yet.` : 'What their planner would pick next. Edit it and assign it to set their next workout.'}
+          </div>
+          <div style={{ display: 'flex', gap: 10, flexWrap: 'wrap', margin: '8px 0' }}>
+            <FieldInline label="Day">
+              <input style={{ ...styles.inputSmall, width: 160 }} value={draft.dayName} onChange={(e) => setDraft({ ...draft, dayName: e.target.value })} />
+            </FieldInline>
+            <Pill>~{estimateWorkoutMinutes(draft.workout)} min</Pill>
+          </div>
+          <div style={styles.table}>
+            <div style={styles.tableHead}>
+              <div>Exercise</div>
+              <div>Sets</div>
+              <div>Reps</div>
+              <div>Target ({units})</div>
+            </div>
+            {draft.workout.map(ex => (
+              <div key={ex.id} style={styles.tableRow}>
+                <div>
+                  <div style={{ fontWeight: 700 }}>{ex.name}</div>
+                  {ex.notes && <div style={styles.muted}>{ex.notes}</div>}
+                </div>
+                <div>
+                  <input style={styles.inputSmall} type="number" min={1} value={ex.sets} onChange={(e) => updateDraftExercise(ex, { sets: Math.max(1, Number(e.target.value)) })} />
+                </div>
+                <div>
+                  <input style={styles.inputSmall} value={ex.reps} onChange={(e) => updateDraftExercise(ex, { reps: e.target.value })} />
+                </div>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+                  <input
+                    style={styles.inputSmall}
+                    type="number"
+                    value={ex.targetWeightLb !== undefined ? displayWeight(ex.targetWeightLb, units) : ''}
+                    onChange={(e) => updateDraftExercise(ex, { targetWeightLb: e.target.value === '' ? undefined : toLb(Number(e.target.value), units) })}
+                  />
+                  <button
+                    style={styles.btnSecondary}
+                    disabled={draft.workout.length === 1}
+                    onClick={() => setDraft({ ...draft, workout: draft.workout.filter(w => w.id !== ex.id) })}
+                    title="Remove exercise"
+                  >
+                    ✕
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+          <textarea
+            style={{ ...styles.input, width: '100%', minHeight: 60, marginTop: 8 }}
+            placeholder={`A note for ${username} (optional)`}
+            value={draft.note}
+            onChange={(e) => setDraft({ ...draft, note: e.target.value })}
+          />
+          <div style={{ display: 'flex', gap: 10, marginTop: 8 }}>
+            <button style={styles.btn} disabled={!draft.dayName.trim()} onClick={() => assign(draft)}>
+              {pending ? 'Update assignment' : `Assign to ${username}`}
+            </button>
+            {pending && <button style={styles.btnSecondary} onClick={() => assign(null)}>Withdraw</button>}
+          </div>
+        </>
+      )}
+
+      <div style={{ fontWeight: 700, margin: '14px 0 6px' }}>Recent sessions</div>
+      {history.length === 0 && <div style={styles.muted}>No sessions logged yet.</div>}
+      {history.slice(0, 5).map(s => {
+        const workingSets = s.logs.flatMap(l => l.sets).filter(st => st.type !== 'warmup' && st.reps !== undefined).length;
+        return (
+          <div key={s.id} style={{ ...styles.historyRow, marginBottom: 8 }}>
+            <div style={{ fontWeight: 700 }}>
+              {s.dayType} — {formatDate(s.dateISO)}{s.assignmentId ? ' (assigned)' : ''}
+            </div>
+            <div style={styles.muted}>
+              {workingSets} working sets logged · energy {s.energy}/5 · difficulty {s.difficulty}/5
+              {s.readiness ? ` · readiness ${s.readiness.score}/100` : ''}
+            </div>
+            {commentsFor(coaching, s).map(c => (
+              <div key={c.id} style={{ fontSize: 13 }}><b>{c.coach}</b> ({formatDate(c.createdAtISO)}): {c.text}</div>
+            ))}
+            <div style={{ display: 'flex', gap: 8, marginTop: 6 }}>
+              <input
+                style={{ ...styles.inputSmall, flex: 1 }}
+                placeholder="Comment…"
+                value={commentDrafts[s.id] ?? ''}
+                onChange={(e) => setCommentDrafts({ ...commentDrafts, [s.id]: e.target.value })}
+              />
+              <button style={styles.btnSecondary} disabled={!commentDrafts[s.id]?.trim()} onClick={() => comment(s.id)}>Comment</button>
+            </div>
+          </div>
+        );
+      })}
+      {error && <div style={styles.warning}>{error}</div>}
+    </div>
+  );
+}
+
+// A retest's results as proposed baselines, to accept per lift; or the baselines already saved from it
+function RetestResults({ setup, session, onSave }: {
+  setup: Setup;
+  session: Session;
+  onSave: (accepted: BaselineProposal[], recalculate: boolean) => void;
+}) {
+  const [skipped, setSkipped] = useState<LiftKey[]>([]);
+  const [recalculate, setRecalculate] = useState(true);
+  const fmt = (lb: number) => formatWeight(lb, setup.units);
+  const applied = appliedBaselines(setup, session);
+  const proposals = proposeBaselines(setup, session);
+
+  if (applied.length > 0) {
+    return (
+      <div style={{ ...styles.note, marginBottom: 10 }}>
+        New baselines saved {formatDate(applied[0].dateISO)}: {applied.map(b => `${b.lift} ${b.fromLb !== undefined ? `${fmt(b.fromLb)} → ` : ''}${fmt(b.toLb)}`).join(', ')}.
+        {applied[0].recalculate ? ' Loads restarted from them.' : ' Loads keep following your logged sessions.'}
+      </div>
+    );
+  }
+  if (proposals.length === 0) {
+    return <div style={{ ...styles.note, marginBottom: 10 }}>Log each test set below. New 5RMs are proposed from the best set per lift.</div>;
+  }
+  const accepted = proposals.filter(p => !skipped.includes(p.lift));
+
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Retest results</div>
+      <div style={styles.table}>
+        <div style={styles.tableHead}>
+          <div>Lift</div>
+          <div>Best set</div>
+          <div>5RM</div>
+          <div>Training max</div>
+        </div>
+        {proposals.map(p => (
+          <div key={p.lift} style={styles.tableRow}>
+            <label style={styles.toggleRow}>
+              <input
+                type="checkbox"
+                checked={!skipped.includes(p.lift)}
+                onChange={(e) => setSkipped(e.target.checked ? skipped.filter(l => l !== p.lift) : [...skipped, p.lift])}
+              />
+              {p.lift.toUpperCase()}
+            </label>
+            <div>{fmt(p.set.weightLb)} × {p.set.reps}</div>
+            <div>{fmt(p.currentLb)} → <strong>{fmt(p.proposedLb)}</strong></div>
+            <div>{fmt(p.trainingMaxLb)}</div>
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', alignItems: 'center', marginTop: 8 }}>
+        <label style={styles.toggleRow}>
+          <input type="radio" checked={recalculate} onChange={() => setRecalculate(true)} />
+          Recalculate upcoming loads from the new 5RMs
+        </label>
+        <label style={styles.toggleRow}>
+          <input type="radio" checked={!recalculate} onChange={() => setRecalculate(false)} />
+          Keep current loads
+        </label>
+        <button style={styles.btn} disabled={accepted.length === 0} onClick={() => onSave(accepted, recalculate)}>Save new baselines</button>
+      </div>
+    </div>
+  );
+}
+
+// The planner's reasoning for a session: why this day, and how each main lift's load was reached
+function WorkoutExplanation({ session, previous, setup }: { session: Session; previous?: Session; setup: Setup | null }) {
+  const units = setup?.units ?? 'lb';
+  const fmt = (lb: number) => formatWeight(lb, units);
+  const planned = session.plannedId ? setup?.plan?.sessions.find(p => p.id === session.plannedId) : undefined;
+  const daysSince = previous
+    ? Math.max(1, Math.round((Date.parse(session.dateISO) - Date.parse(previous.dateISO)) / DAY_MS))
+    : 0;
+  const traced = session.workout.filter(ex => ex.trace);
+  const untraced = session.workout.length - traced.length;
+
+  return (
+    <div style={{ marginBottom: 12, padding: 12, borderRadius: 12, background: 'rgba(0,0,0,0.04)' }}>
+      <div style={{ fontWeight: 700, marginBottom: 6 }}>Why this workout?</div>
+      <div style={{ fontSize: 13, opacity: 0.85 }}>
+        {session.retest
+          ? <>This is a <strong>5RM retest</strong>: warm up, then one set of as many reps as you can at your current 5RM. The best set proposes a new baseline.</>
+          : session.assignmentId
+          ? <>Your coach assigned this <strong>{session.dayType}</strong> workout.</>
+          : planned && setup?.plan
+          ? <>This is the <strong>{session.dayType}</strong> day scheduled for {blockWeekLabel(setup.plan, planned.week).toLowerCase()} of your training block.</>
+          : <>This is a <strong>{session.dayType}</strong> day, next in your split after the days you trained most recently.</>}
+        {previous && (
+          <> Your last workout was a <strong>{previous.dayType}</strong> session {daysSince} day{daysSince === 1 ? '' : 's'} ago.</>
+        )}
+      </div>
+
+      {traced.map(ex => {
+        const t = ex.trace!;
+        return (
+          <div key={ex.id} style={{ marginTop: 10, fontSize: 13 }}>
+            <div style={{ fontWeight: 700 }}>
+              {ex.name}: {ex.sets} × {ex.reps}{ex.targetWeightLb !== undefined ? ` @ ${fmt(ex.targetWeightLb)}` : ''}
+            </div>
+            <ul style={{ margin: '4px 0 0', paddingLeft: 18 }}>
+              <li>Progression: {PROGRESSION_STRATEGIES[t.strategy]?.label ?? t.strategy}</li>
+              {t.oneRepMaxLb !== undefined && (
+                <li>Estimated 1RM {fmt(t.oneRepMaxLb)}{t.oneRepMaxSource ? ` (${t.oneRepMaxSource})` : ''}</li>
+              )}
+              {t.trainingMaxLb !== undefined && (
+                <li>
+                  Training max {fmt(t.trainingMaxLb)}
+                  {t.goalPercent !== undefined ? `, working at ${Math.round(t.goalPercent * 100)}%` : ''}
+                </li>
+              )}
+              {t.previous && (
+                <li>
+                  Previous: {formatDate(t.previous.dateISO)}
+                  {t.previous.targetWeightLb !== undefined ? `, target ${fmt(t.previous.targetWeightLb)}` : ''}
+                </li>
+              )}
+              <li>Rule: {t.rule}</li>
+              {t.clamp && (
+                <li>
+                  Limits {fmt(t.clamp.minLb)}–{fmt(t.clamp.maxLb)}:{' '}
+                  {t.clamp.applied ? `capped from ${fmt(t.clamp.unclampedLb)}` : 'within limits'}
+                </li>
+              )}
+              {t.adjustments?.map((a, i) => <li key={i}>{a}</li>)}
+            </ul>
+          </div>
+        );
+      })}
+      {untraced > 0 && (
+        <div style={{ ...styles.muted, marginTop: 8 }}>
+          {traced.length === 0 ? 'Exercises' : 'Accessories'} keep their template sets and reps; pick loads by feel.
+        </div>
+      )}
+
+      {session.readiness && (
+        <div style={{ marginTop: 10, fontSize: 13 }}>
+          <div style={{ fontWeight: 700 }}>
+            Readiness {session.readiness.score}/100
+            {session.deload && <span> · Deload: {session.readiness.deloadReason}</span>}
+          </div>
+          {session.readiness.factors.length === 0 ? (
+            <div style={styles.muted}>Not enough history yet; log sleep, energy and RPE to build a trend.</div>
+          ) : (
+            <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', marginTop: 6 }}>
+              {session.readiness.factors.map(f => (
+                <Pill key={f.label}>{f.label}: {f.detail}{f.penalty > 0 ? ` (−${f.penalty})` : ''}</Pill>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function LineChart({ series }: { series: { label: string; color: string; points: SeriesPoint[] }[] }) {
+  const W = 640;
+  const H = 220;
+  const pad = { left: 44, right: 12, top: 12, bottom: 24 };
+  const all = series.flatMap(s => s.points);
+  const tMin = Math.min(...all.map(p => p.t));
+  const tMax = Math.max(...all.map(p => p.t));
+  const vMin = Math.min(...all.map(p => p.value)) * 0.95;
+  const vMax = Math.max(...all.map(p => p.value)) * 1.05;
+  const x = (t: number) => pad.left + (tMax === tMin ? 0.5 : (t - tMin) / (tMax - tMin)) * (W - pad.left - pad.right);
+  const y = (v: number) => pad.top + (1 - (v - vMin) / (vMax - vMin || 1)) * (H - pad.top - pad.bottom);
+  const ticks = [0, 1, 2, 3].map(i => vMin + ((vMax - vMin) * i) / 3);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${W} ${H}`} style={{ width: '100%', height: 'auto' }}>
+        {ticks.map(v => (
+          <g key={v}>
+            <line x1={pad.left} x2={W - pad.right} y1={y(v)} y2={y(v)} stroke="rgba(0,0,0,0.08)" />
+            <text x={pad.left - 6} y={y(v) + 4} fontSize={10} textAnchor="end" fill="currentColor" opacity={0.6}>{Math.round(v)}</text>
+          </g>
+        ))}
+        <text x={pad.left} y={H - 6} fontSize={10} fill="currentColor" opacity={0.6}>{formatDate(new Date(tMin).toISOString())}</text>
+        <text x={W - pad.right} y={H - 6} fontSize={10} textAnchor="end" fill="currentColor" opacity={0.6}>{formatDate(new Date(tMax).toISOString())}</text>
+        {series.map(s => (
+          <g key={s.label}>
+            <polyline fill="none" stroke={s.color} strokeWidth={2} points={s.points.map(p => `${x(p.t)},${y(p.value)}`).join(' ')} />
+            {s.points.map((p, i) => (
+              <circle key={i} cx={x(p.t)} cy={y(p.value)} r={3} fill={s.color}>
+                <title>{`${s.label} ${formatDate(new Date(p.t).toISOString())}: ${Math.round(p.value)}`}</title>
+              </circle>
+            ))}
+          </g>
+        ))}
+      </svg>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', fontSize: 12 }}>
+        {series.map(s => (
+          <span key={s.label}><span style={{ color: s.color }}>●</span> {s.label}</span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function VolumeTable({ weeks, metric, units }: { weeks: WeeklyVolume[]; metric: 'hardSets' | 'tonnage'; units: Units }) {
+  const muscles = Array.from(new Set(weeks.flatMap(w => Object.keys(w.muscles)))).sort();
+  const value = (v?: MuscleVolume) => (!v ? 0 : metric === 'hardSets' ? v.hardSets : fromLb(v.tonnageLb, units));
+  const max = Math.max(1, ...weeks.flatMap(w => muscles.map(m => value(w.muscles[m]))));
+
+  return (
+    <div style={{ overflowX: 'auto', marginTop: 10 }}>
+      <div style={{ display: 'grid', gridTemplateColumns: `140px repeat(${weeks.length}, minmax(56px, 1fr))`, gap: 2, fontSize: 12 }}>
+        <div />
+        {weeks.map(w => <div key={w.weekISO} style={{ fontWeight: 700 }}>{formatDate(`${w.weekISO}T12:00:00`)}</div>)}
+        {muscles.map(m => (
+          <React.Fragment key={m}>
+            <div>{m}</div>
+            {weeks.map(w => {
+              const v = value(w.muscles[m]);
+              return (
+                <div key={w.weekISO} style={{ padding: 4, borderRadius: 6, background: `rgba(37,99,235,${(0.08 + 0.6 * v / max).toFixed(2)})` }}>
+                  {v ? Math.round(v).toLocaleString() : '·'}
+                </div>
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 function Pill({ children }: { children: React.ReactNode }) {
   return <div style={styles.pill}>{children}</div>;
 }
@@ -626,13 +2865,19 @@ const styles: Record<string, React.CSSProperties> = {
   btn: { padding: '10px 12px', borderRadius: 12, border: '1px solid rgba(0,0,0,0.2)', fontWeight: 700, cursor: 'pointer' },
   btnSecondary: { padding: '10px 12px', borderRadius: 12, border: '1px solid rgba(0,0,0,0.2)', opacity: 0.8, cursor: 'pointer', background: 'transparent' },
   note: { marginTop: 10, opacity: 0.75 },
+  warning: { marginTop: 10, padding: 10, borderRadius: 10, background: 'rgba(200,120,0,0.12)' },
+  preview: { marginTop: 12, padding: 12, borderRadius: 12, background: 'rgba(0,0,0,0.04)' },
+  previewGrid: { display: 'grid', gridTemplateColumns: '1fr 2fr 2fr', gap: 6, fontSize: 13 },
   muted: { fontSize: 12, opacity: 0.7, marginTop: 2 },
   pill: { border: '1px solid rgba(0,0,0,0.18)', padding: '6px 10px', borderRadius: 999, fontSize: 12, opacity: 0.9 },
   table: { border: '1px solid rgba(0,0,0,0.12)', borderRadius: 12, overflow: 'hidden' },
   tableHead: { display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 1fr', padding: 10, fontWeight: 800, background: 'rgba(0,0,0,0.04)' },
   tableRow: { display: 'grid', gridTemplateColumns: '2fr 1fr 1fr 1fr', padding: 10, borderTop: '1px solid rgba(0,0,0,0.08)', alignItems: 'center' },
   logRow: { display: 'flex', gap: 12, padding: 12, border: '1px solid rgba(0,0,0,0.10)', borderRadius: 12 },
+  setRow: { display: 'flex', alignItems: 'center', gap: 10, flexWrap: 'wrap' },
+  prBadge: { display: 'inline-block', marginTop: 6, marginRight: 6, padding: '3px 8px', borderRadius: 999, fontSize: 12, fontWeight: 700, background: 'rgba(234,179,8,0.22)' },
   historyRow: { padding: 12, border: '1px solid rgba(0,0,0,0.10)', borderRadius: 12 },
+  historyRowActive: { padding: 12, border: '1px solid #111', borderRadius: 12 },
   toggleRow: { display: 'flex', alignItems: 'center', gap: 6, userSelect: 'none' },
   footer: { marginTop: 18, opacity: 0.6, fontSize: 12 },
 };
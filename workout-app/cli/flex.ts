@@ -0,0 +1,166 @@
+// Command-line access to the planning engine, reading a backup exported from the app.
+//   npm run flex -- plan --state backup.json [--at 2026-01-05T07:00:00Z] [--json]
+//   npm run flex -- next-day --state backup.json [--at ...] [--json]
+//   npm run flex -- e1rm --state backup.json [--at ...] [--json]
+//   npm run flex -- strength --state backup.json [--at ...] [--json]
+//   npm run flex -- simulate [--profile intermediate] [--seed 1] [--weeks 26] [--at ...] [--out backup.json] [--json]
+import { readFileSync, writeFileSync } from 'node:fs';
+import {
+  checkProgression, DAY_MS, e1RMHistory, estimate1RMFrom5RM, formatWeight, LIFT_KEYS, nextWorkoutDay, parseStoredState,
+  planNextSession, relativeStrength, estimateWorkoutMinutes, simulateHistory, SIMULATED_ATHLETES, storedState,
+  type AppState, type Setup,
+} from '../lib';
+
+const USAGE = `usage: flex <plan|next-day|e1rm|strength> --state <backup.json> [--at <ISO date>] [--json]
+       flex simulate [--profile <${Object.keys(SIMULATED_ATHLETES).join('|')}>] [--seed <n>] [--weeks <n>] [--at <ISO date>] [--out <backup.json>] [--json]
+
+  plan      the next workout, with loads prescribed from the history
+  next-day  which split day (or block slot) comes next
+  e1rm      estimated 1RM per main lift: latest, best and from the saved 5RM
+  strength  bodyweight multiples, tiers, DOTS and Wilks from the current 1RMs
+  simulate  a seeded athlete's history up to --at, planned by the engine, and whether progression kept pace`;
+
+type Options = {
+  command: string; statePath: string; atISO: string; json: boolean;
+  profile: string; seed: number; weeks: number; outPath: string;
+};
+
+function positiveInt(flag: string, value: string | undefined) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new Error(`${flag} needs a whole number above 0`);
+  return n;
+}
+
+function parseArgs(argv: string[]): Options {
+  const [command, ...rest] = argv;
+  const opts: Options = {
+    command: command ?? '', statePath: '', atISO: new Date().toISOString(), json: false,
+    profile: 'intermediate', seed: 1, weeks: 26, outPath: '',
+  };
+  for (let i = 0; i < rest.length; i++) {
+    const arg = rest[i];
+    if (arg === '--json') opts.json = true;
+    else if (arg === '--state') opts.statePath = rest[++i] ?? '';
+    else if (arg === '--profile') opts.profile = rest[++i] ?? '';
+    else if (arg === '--seed') opts.seed = positiveInt(arg, rest[++i]);
+    else if (arg === '--weeks') opts.weeks = positiveInt(arg, rest[++i]);
+    else if (arg === '--out') opts.outPath = rest[++i] ?? '';
+    else if (arg === '--at') {
+      const t = Date.parse(rest[++i] ?? '');
+      if (!Number.isFinite(t)) throw new Error('--at needs a date, e.g. 2026-01-05 or 2026-01-05T07:00:00Z');
+      opts.atISO = new Date(t).toISOString();
+    } else throw new Error(`unknown option ${arg}`);
+  }
+  if (!['plan', 'next-day', 'e1rm', 'strength', 'simulate'].includes(opts.command)) throw new Error(USAGE);
+  if (opts.command === 'simulate') {
+    if (!SIMULATED_ATHLETES[opts.profile]) throw new Error(`unknown profile ${opts.profile}; try ${Object.keys(SIMULATED_ATHLETES).join(', ')}`);
+  } else if (!opts.statePath) throw new Error('--state is required');
+  return opts;
+}
+
+function loadState(file: string): AppState & { setup: Setup } {
+  const result = parseStoredState(readFileSync(file, 'utf8'));
+  if (!result.ok) throw new Error(`${file}: ${result.reason}`);
+  const { setup, history } = result.state;
+  if (!setup) throw new Error(`${file}: no setup saved yet`);
+  return { setup, history };
+}
+
+function plan({ setup, history }: AppState & { setup: Setup }, atISO: string, json: boolean) {
+  const session = planNextSession(setup, history, atISO);
+  if (!session) throw new Error('the split has no days');
+  if (json) return JSON.stringify(session, null, 2);
+
+  const minutes = `~${estimateWorkoutMinutes(session.workout)} of ${session.timeBudgetMin} min`;
+  const lines = [`${session.dayType} — ${session.dateISO.slice(0, 10)}${session.deload ? ' (deload)' : ''}, ${minutes}`];
+  if (session.readiness) lines.push(`Readiness ${session.readiness.score}/100`);
+  for (const ex of session.workout) {
+    const load = ex.targetWeightLb !== undefined ? ` @ ${formatWeight(ex.targetWeightLb, setup.units)}` : '';
+    lines.push(`  ${ex.name}: ${ex.sets} x ${ex.reps}${load}`);
+    if (ex.warmups?.length) {
+      lines.push(`    warm-up: ${ex.warmups.map(w => `${formatWeight(w.weightLb, setup.units)} x ${w.reps}`).join(', ')}`);
+    }
+    if (ex.notes) lines.push(`    ${ex.notes}`);
+    if (ex.trace) lines.push(`    why: ${[ex.trace.rule, ...(ex.trace.adjustments ?? [])].join('; ')}`);
+  }
+  return lines.join('\n');
+}
+
+function nextDay({ setup, history }: AppState & { setup: Setup }, json: boolean) {
+  const next = nextWorkoutDay(setup, history);
+  if (!next) throw new Error('the split has no days');
+  if (json) return JSON.stringify({ dayId: next.day.id, name: next.day.name, planned: next.planned }, null, 2);
+  return next.planned ? `${next.day.name} (block week ${next.planned.week})` : next.day.name;
+}
+
+function e1rm({ setup, history }: AppState & { setup: Setup }, json: boolean) {
+  const series = e1RMHistory(history);
+  const rows = LIFT_KEYS.map(lift => {
+    const values = series[lift].map(p => Math.round(p.value));
+    return {
+      lift,
+      latestLb: values.at(-1) ?? null,
+      bestLb: values.length ? Math.max(...values) : null,
+      fromFiveRMLb: Math.round(estimate1RMFrom5RM(setup.fiveRM[lift])),
+    };
+  });
+  if (json) return JSON.stringify(rows, null, 2);
+
+  const show = (lb: number | null) => (lb === null ? '—' : formatWeight(lb, setup.units));
+  return rows
+    .map(r => `${r.lift.padEnd(9)} latest ${show(r.latestLb)}, best ${show(r.bestLb)}, from 5RM ${show(r.fromFiveRMLb)}`)
+    .join('\n');
+}
+
+function strength({ setup, history }: AppState & { setup: Setup }, json: boolean) {
+  const r = relativeStrength(setup, history);
+  if (json) return JSON.stringify(r, null, 2);
+
+  const lines = [`Bodyweight ${formatWeight(r.bodyweightLb, setup.units)}`];
+  for (const l of r.lifts) {
+    const tier = l.tier ? `, ${l.tier}${l.next ? ` (${l.next.tier} at ${formatWeight(l.next.e1RMLb, setup.units)})` : ''}` : '';
+    lines.push(`${l.lift.padEnd(9)} ${formatWeight(l.e1RMLb, setup.units)}${l.source === '5RM' ? ' from 5RM' : ''}, ${l.multiple.toFixed(2)} x BW${tier}`);
+  }
+  lines.push(r.sex
+    ? `Total ${formatWeight(r.totalLb, setup.units)}, DOTS ${r.dots!.toFixed(1)}, Wilks ${r.wilks!.toFixed(1)}`
+    : 'DOTS, Wilks and tiers need gender set to Male or Female');
+  return lines.join('\n');
+}
+
+function simulate(opts: Options) {
+  const profile = SIMULATED_ATHLETES[opts.profile];
+  const startISO = new Date(Date.parse(opts.atISO) - opts.weeks * 7 * DAY_MS).toISOString();
+  const sim = simulateHistory(profile, { seed: opts.seed, startISO, weeks: opts.weeks });
+  if (opts.outPath) writeFileSync(opts.outPath, JSON.stringify(storedState(sim.state), null, 2));
+  const checks = checkProgression(sim);
+  if (opts.json) return JSON.stringify({ sessions: sim.state.history.length, missedDays: sim.missedDays, checks }, null, 2);
+
+  const pct = (x: number) => `${x >= 0 ? '+' : ''}${(x * 100).toFixed(1)}%`;
+  const lines = [
+    `${profile.label}, seed ${opts.seed}: ${sim.state.history.length} sessions over ${opts.weeks} weeks, ${sim.missedDays} training days missed`,
+  ];
+  for (const c of checks) {
+    lines.push(`${c.lift.padEnd(9)} ${c.verdict.padEnd(9)} true 1RM ${pct(c.trueGain)}, load ${pct(c.loadGain)}, ${c.sessions} sessions, ${Math.round(c.overreach * 100)}% over capacity`);
+  }
+  if (opts.outPath) lines.push(`History written to ${opts.outPath}`);
+  return lines.join('\n');
+}
+
+function main() {
+  const opts = parseArgs(process.argv.slice(2));
+  if (opts.command === 'simulate') return simulate(opts);
+  const { setup, history } = loadState(opts.statePath);
+  // everything is answered as of --at: sessions after it haven't happened yet
+  const state = { setup, history: history.filter(s => s.dateISO < opts.atISO) };
+  if (opts.command === 'plan') return plan(state, opts.atISO, opts.json);
+  if (opts.command === 'next-day') return nextDay(state, opts.json);
+  if (opts.command === 'strength') return strength(state, opts.json);
+  return e1rm(state, opts.json);
+}
+
+try {
+  console.log(main());
+} catch (e) {
+  console.error((e as Error).message);
+  process.exitCode = 1;
+}
@@ -0,0 +1,104 @@
+import type { LiftKey, Session, SetLog } from './types';
+import { chronological } from './util';
+import { repsInReserve, summarizeLoggedSets } from './progression';
+
+// Trends derived from the training history: e1RM series, weekly volume and rep-max PRs.
+
+export type SeriesPoint = { t: number; value: number };
+
+export type MuscleVolume = { hardSets: number; tonnageLb: number };
+
+export type WeeklyVolume = { weekISO: string; muscles: Record<string, MuscleVolume> };
+
+export type RepMaxPR = {
+  sessionId: string;
+  exerciseName: string;
+  reps: number;
+  weightLb: number;
+  previousLb: number; // best previous weight for at least this many reps
+};
+
+// Sets that count toward volume: not warm-ups, reps done, and within 4 reps of failure (unrated sets count)
+function isHardSet(st: SetLog) {
+  return st.type !== 'warmup' && (st.reps ?? 0) > 0 && repsInReserve(st, 0) <= 4;
+}
+
+// Best logged e1RM per session for each primary lift, oldest first
+export function e1RMHistory(history: Session[]): Record<LiftKey, SeriesPoint[]> {
+  const out: Record<LiftKey, SeriesPoint[]> = { bench: [], squat: [], deadlift: [], ohp: [], row: [] };
+  for (const s of chronological(history)) {
+    const t = Date.parse(s.dateISO);
+    for (const ex of s.workout) {
+      if (ex.primary === 'accessory') continue;
+      const logged = summarizeLoggedSets(s, ex, 0);
+      if (!logged) continue;
+      const series = out[ex.primary];
+      const last = series[series.length - 1];
+      if (last?.t === t) last.value = Math.max(last.value, logged.e1RM);
+      else series.push({ t, value: logged.e1RM });
+    }
+  }
+  return out;
+}
+
+// Monday of the session's week, as YYYY-MM-DD in local time
+function weekStartISO(iso: string) {
+  const d = new Date(iso);
+  d.setHours(0, 0, 0, 0);
+  d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Hard sets and tonnage per muscle group per week, oldest week first
+export function weeklyVolume(history: Session[]): WeeklyVolume[] {
+  const weeks = new Map<string, Record<string, MuscleVolume>>();
+  for (const s of history) {
+    const key = weekStartISO(s.dateISO);
+    const muscles = weeks.get(key) ?? {};
+    weeks.set(key, muscles);
+    for (const ex of s.workout) {
+      const sets = s.logs.find(l => l.exerciseId === ex.id)?.sets ?? [];
+      for (const st of sets) {
+        if (st.type === 'warmup' || !st.reps) continue;
+        for (const m of ex.muscleGroups) {
+          const v = (muscles[m] ??= { hardSets: 0, tonnageLb: 0 });
+          if (isHardSet(st)) v.hardSets += 1;
+          v.tonnageLb += (st.weightLb ?? 0) * st.reps;
+        }
+      }
+    }
+  }
+  return Array.from(weeks, ([weekISO, muscles]) => ({ weekISO, muscles })).sort((a, b) => a.weekISO.localeCompare(b.weekISO));
+}
+
+// A rep-max PR beats every earlier set of the same exercise done for at least as many reps.
+// An exercise's first session only sets the baseline.
+export function detectRepMaxPRs(history: Session[]): RepMaxPR[] {
+  const prs: RepMaxPR[] = [];
+  const seen = new Map<string, { reps: number; weightLb: number }[]>();
+  for (const s of chronological(history)) {
+    const sessionSets: { catalogId: string; reps: number; weightLb: number }[] = [];
+    for (const ex of s.workout) {
+      const prior = seen.get(ex.catalogId) ?? [];
+      const sets = (s.logs.find(l => l.exerciseId === ex.id)?.sets ?? []).filter(st => st.type !== 'warmup' && st.reps && st.weightLb);
+      const best = new Map<number, number>(); // reps -> heaviest weight this session
+      for (const st of sets) best.set(st.reps!, Math.max(best.get(st.reps!) ?? 0, st.weightLb!));
+      for (const [reps, weightLb] of Array.from(best)) {
+        const comparable = prior.filter(p => p.reps >= reps);
+        if (comparable.length === 0) continue;
+        const previousLb = Math.max(...comparable.map(p => p.weightLb));
+        // only report the heaviest rep count this session actually moved the needle on
+        if (weightLb > previousLb && !Array.from(best).some(([r, w]) => r > reps && w >= weightLb)) {
+          prs.push({ sessionId: s.id, exerciseName: ex.name, reps, weightLb, previousLb });
+        }
+      }
+      for (const [reps, weightLb] of Array.from(best)) sessionSets.push({ catalogId: ex.catalogId, reps, weightLb });
+    }
+    for (const st of sessionSets) {
+      const list = seen.get(st.catalogId) ?? [];
+      list.push({ reps: st.reps, weightLb: st.weightLb });
+      seen.set(st.catalogId, list);
+    }
+  }
+  return prs;
+}
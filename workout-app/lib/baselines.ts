@@ -0,0 +1,122 @@
+import type { BaselineChange, LiftKey, Session, Setup } from './types';
+import { DAY_MS, uid } from './util';
+import { LIFT_KEYS } from './schema';
+import { CATALOG_BY_ID, EXERCISE_CATALOG, exerciseFromCatalog, hasEquipment } from './catalog';
+import { estimate1RM, loadForReps, trainingMax } from './progression';
+import { formatWeight, roundLoad } from './units';
+import { withWarmups } from './warmups';
+import { emptySets } from './sessions';
+
+// 5RM baselines: their dated history, scheduled retests, and new baselines proposed from a retest's results.
+
+export const RETEST_INTERVALS_WEEKS = [6, 8, 12] as const;
+
+const RETEST_REST_SEC = 300;
+
+export type BaselineProposal = {
+  lift: LiftKey;
+  currentLb: number;
+  proposedLb: number; // the new 5RM
+  trainingMaxLb: number; // 90% of the estimated 1RM; where a 5/3/1 cycle restarts
+  set: { weightLb: number; reps: number }; // the logged set it came from
+};
+
+function withChanges(setup: Setup, changes: Omit<BaselineChange, 'id' | 'dateISO'>[], dateISO: string): Setup {
+  if (changes.length === 0) return setup;
+  const fiveRM = { ...setup.fiveRM };
+  for (const c of changes) fiveRM[c.lift] = c.toLb;
+  const entries = changes.map(c => ({ id: uid('base'), dateISO, ...c }));
+  return { ...setup, fiveRM, baselineLog: [...entries, ...(setup.baselineLog ?? [])] };
+}
+
+// Save the setup form, noting each 5RM that changed (every one, the first time)
+export function recordSetupBaselines(previous: Setup | null, next: Setup, dateISO: string): Setup {
+  const changes = LIFT_KEYS
+    .filter(lift => !previous || previous.fiveRM[lift] !== next.fiveRM[lift])
+    .map(lift => ({ lift, fromLb: previous?.fiveRM[lift], toLb: next.fiveRM[lift], reason: previous ? 'Edited in setup' : 'First setup' }));
+  return withChanges({ ...next, fiveRM: previous?.fiveRM ?? next.fiveRM }, changes, dateISO);
+}
+
+// The main lifts the split trains
+export function liftsInSplit(setup: Setup) {
+  const lifts = new Set(setup.split.days.flatMap(d => d.exercises.map(t => CATALOG_BY_ID.get(t.catalogId)?.lift)));
+  return LIFT_KEYS.filter(lift => lifts.has(lift));
+}
+
+// Lifts in the split whose baseline is older than the retest interval on `dateISO`. A lift that has
+// never had one recorded counts from the first session that trained it.
+export function retestDue(setup: Setup, history: Session[], dateISO: string): LiftKey[] {
+  if (!setup.retestEveryWeeks) return [];
+  const cutoff = Date.parse(dateISO) - setup.retestEveryWeeks * 7 * DAY_MS;
+  return liftsInSplit(setup).filter(lift => {
+    const since = setup.baselineLog?.find(b => b.lift === lift)?.dateISO
+      ?? history.filter(s => s.workout.some(ex => ex.primary === lift)).at(-1)?.dateISO;
+    return since !== undefined && Date.parse(since) <= cutoff;
+  });
+}
+
+// A test day: per lift, the warm-up ramp and one set of as many good reps as possible at the current 5RM.
+// Lifts the equipment can't load are left out.
+export function planRetestSession(setup: Setup, lifts: LiftKey[], dateISO: string): Session {
+  const workout = lifts.flatMap(lift => {
+    const entry = EXERCISE_CATALOG.find(c => c.lift === lift);
+    if (!entry || !hasEquipment(entry, setup.equipment)) return [];
+    const ex = {
+      ...exerciseFromCatalog(entry, 1, '5+'),
+      targetWeightLb: roundLoad(setup, setup.fiveRM[lift]),
+      restSec: RETEST_REST_SEC,
+      notes: 'Warm up, then as many clean reps as you can. Stop a rep before form breaks down.',
+    };
+    return [withWarmups(setup, ex)];
+  });
+  return {
+    id: uid('sess'),
+    dateISO,
+    dayType: '5RM retest',
+    muscleGroups: Array.from(new Set(workout.flatMap(w => w.muscleGroups))),
+    energy: 3,
+    difficulty: 3,
+    workout,
+    logs: workout.map(w => ({ exerciseId: w.id, sets: emptySets(w) })),
+    retest: true,
+  };
+}
+
+// New 5RMs from a retest: each lift's best logged set as an estimated 1RM, brought back to five reps
+export function proposeBaselines(setup: Setup, session: Session): BaselineProposal[] {
+  if (!session.retest) return [];
+  return session.workout.flatMap(ex => {
+    if (ex.primary === 'accessory') return [];
+    const sets = (session.logs.find(l => l.exerciseId === ex.id)?.sets ?? [])
+      .filter(st => (st.type === 'working' || st.type === 'failure') && st.weightLb && st.reps);
+    if (sets.length === 0) return [];
+    const e1RM = (st: (typeof sets)[number]) => estimate1RM(st.weightLb!, st.reps!);
+    const best = sets.reduce((a, b) => (e1RM(b) > e1RM(a) ? b : a));
+    return [{
+      lift: ex.primary,
+      currentLb: setup.fiveRM[ex.primary],
+      proposedLb: roundLoad(setup, loadForReps(e1RM(best), 5)),
+      trainingMaxLb: roundLoad(setup, trainingMax(e1RM(best))),
+      set: { weightLb: best.weightLb!, reps: best.reps! },
+    }];
+  });
+}
+
+// The baseline changes already saved from a retest session
+export function appliedBaselines(setup: Setup, session: Session) {
+  return (setup.baselineLog ?? []).filter(b => b.sessionId === session.id);
+}
+
+// Save accepted proposals as the new 5RMs. With `recalculate`, those lifts' progression restarts from the
+// new baseline; otherwise loads keep following the logged history and only the 1RM estimates move.
+export function applyRetest(setup: Setup, session: Session, accepted: BaselineProposal[], recalculate: boolean, dateISO: string): Setup {
+  const changes = accepted.map(p => ({
+    lift: p.lift,
+    fromLb: setup.fiveRM[p.lift],
+    toLb: p.proposedLb,
+    reason: `Retest: ${formatWeight(p.set.weightLb, setup.units)} × ${p.set.reps}`,
+    sessionId: session.id,
+    recalculate: recalculate || undefined,
+  }));
+  return withChanges(setup, changes, dateISO);
+}
@@ -0,0 +1,105 @@
+import type { Exercise, Mesocycle, PlannedSession, Session, Setup, Split } from './types';
+import { uid } from './util';
+import { roundLoad } from './units';
+import { buildDayWorkout, pickNextDay } from './splits';
+import { prescribeExercise, progressionHistory, withAdjustment } from './progression';
+import { applyDeload } from './readiness';
+import { withWarmups } from './warmups';
+import { DEFAULT_SESSION_MINUTES, fitToTime } from './goals';
+import { avoidPain, capForPain, painAllows } from './pain';
+
+// Training blocks: scheduling, week-by-week overload and the deload week.
+
+export const BLOCK_LENGTHS = [4, 5, 6, 7, 8];
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+const BLOCK_MAX_EXTRA_SETS = 2; // sets added per exercise by the last loading week
+const BLOCK_LOAD_STEP = 0.025; // projected load increase per week ahead of the current one
+
+// What a week of the block asks for: volume climbs through the loading weeks, the last week deloads
+export type BlockWeek = { week: number; deload: boolean; extraSets: number };
+
+export function blockWeek(plan: Mesocycle, week: number): BlockWeek {
+  if (week >= plan.weeks) return { week, deload: true, extraSets: 0 };
+  const extraSets = Math.round((BLOCK_MAX_EXTRA_SETS * (week - 1)) / Math.max(1, plan.weeks - 2));
+  return { week, deload: false, extraSets };
+}
+
+export function blockWeekLabel(plan: Mesocycle, week: number) {
+  const bw = blockWeek(plan, week);
+  if (bw.deload) return `Week ${week} · deload`;
+  return `Week ${week}${bw.extraSets > 0 ? ` · +${bw.extraSets} set${bw.extraSets === 1 ? '' : 's'}` : ''}`;
+}
+
+// `loadFactor` projects loads for weeks that haven't started yet; 5/3/1 runs its own weekly waves
+export function applyBlockWeek(setup: Setup, ex: Exercise, bw: BlockWeek, loadFactor = 1): Exercise {
+  if (bw.deload) return applyDeload(setup, ex);
+  if (ex.scheme?.strategy === 'wave531') return ex;
+  const sets = ex.sets + bw.extraSets;
+  const targetWeightLb = ex.targetWeightLb && loadFactor !== 1 ? roundLoad(setup, ex.targetWeightLb * loadFactor) : ex.targetWeightLb;
+  let out: Exercise = { ...ex, sets, targetWeightLb };
+  if (bw.extraSets > 0) out = withAdjustment(out, `Block week ${bw.week}: +${bw.extraSets} set${bw.extraSets === 1 ? '' : 's'}`);
+  if (targetWeightLb !== ex.targetWeightLb) {
+    out = withAdjustment(out, `Projected for week ${bw.week}: +${Math.round((loadFactor - 1) * 100)}% load`);
+  }
+  return out;
+}
+
+// Lay the split out over the chosen weekdays, carrying on the rotation from recent history
+export function scheduleBlock(split: Split, history: Session[], startDate: string, weeks: number, trainingDays: number[]): Mesocycle {
+  const start = new Date(`${startDate}T12:00:00`);
+  const first = pickNextDay(history, split);
+  let dayIndex = Math.max(0, split.days.findIndex(d => d.id === first?.id));
+  const sessions: PlannedSession[] = [];
+  for (let offset = 0; offset < weeks * 7; offset++) {
+    const date = new Date(start);
+    date.setDate(start.getDate() + offset);
+    if (!trainingDays.includes(date.getDay()) || split.days.length === 0) continue;
+    sessions.push({
+      id: uid('plan'),
+      dateISO: date.toISOString(),
+      week: Math.floor(offset / 7) + 1,
+      dayId: split.days[dayIndex % split.days.length].id,
+    });
+    dayIndex += 1;
+  }
+  return { id: uid('block'), startISO: start.toISOString(), weeks, trainingDays: [...trainingDays].sort((a, b) => a - b), sessions };
+}
+
+export function plannedSessionDone(history: Session[], p: PlannedSession) {
+  return history.some(h => h.plannedId === p.id);
+}
+
+// The next slot to train: the earliest one that hasn't been done or skipped, overdue ones included
+export function nextPlannedSession(plan: Mesocycle, history: Session[]) {
+  return plan.sessions.find(p => !p.skipped && !plannedSessionDone(history, p)) ?? null;
+}
+
+// Swap a slot's workout with the next or previous open slot; the dates stay put
+export function movePlannedSession(plan: Mesocycle, history: Session[], id: string, dir: -1 | 1): Mesocycle {
+  const open = plan.sessions.filter(p => !plannedSessionDone(history, p));
+  const i = open.findIndex(p => p.id === id);
+  const other = open[i + dir];
+  if (i < 0 || !other) return plan;
+  const a = open[i];
+  return {
+    ...plan,
+    sessions: plan.sessions.map(p => (p.id === a.id ? { ...p, dayId: other.dayId } : p.id === other.id ? { ...p, dayId: a.dayId } : p)),
+  };
+}
+
+// What a slot will prescribe if trained as things stand: today's progression from actual history,
+// plus the block's volume for that week and a projected load ramp for weeks further out
+export function previewPlannedSession(setup: Setup, history: Session[], plan: Mesocycle, p: PlannedSession): Exercise[] {
+  const day = setup.split.days.find(d => d.id === p.dayId);
+  if (!day) return [];
+  const current = nextPlannedSession(plan, history)?.week ?? p.week;
+  const loadFactor = 1 + BLOCK_LOAD_STEP * Math.max(0, p.week - current);
+  const earlier = progressionHistory(history, p.dateISO);
+  const bw = blockWeek(plan, p.week);
+  const prepare = (ex: Exercise) => {
+    const adjusted = applyBlockWeek(setup, prescribeExercise(setup, earlier, ex), bw, loadFactor);
+    return withWarmups(setup, capForPain(setup, adjusted, p.dateISO));
+  };
+  const built = avoidPain(setup, buildDayWorkout(day, setup), p.dateISO).map(prepare);
+  return fitToTime(setup, built, setup.sessionMinutes ?? DEFAULT_SESSION_MINUTES, prepare, ex => painAllows(setup, ex, p.dateISO));
+}
@@ -0,0 +1,142 @@
+import type { Equipment, Exercise, LiftKey } from './types';
+import { ALL_EQUIPMENT } from './schema';
+import { uid } from './util';
+
+// The exercise catalog: movement patterns, equipment needs and substitutions.
+
+export type MovementPattern =
+  | 'horizontal-push' | 'vertical-push' | 'horizontal-pull' | 'vertical-pull'
+  | 'squat' | 'hinge' | 'lunge' | 'knee-flexion' | 'calf'
+  | 'elbow-flexion' | 'elbow-extension' | 'lateral-raise' | 'rear-delt';
+
+type CatalogExercise = {
+  id: string; // stable across sessions and renames
+  name: string;
+  lift?: LiftKey; // progressed as a primary lift
+  muscleGroups: string[];
+  equipment: Equipment[]; // all of these are required
+  pattern: MovementPattern;
+  sets: number;
+  reps: string;
+  aliases?: string[]; // other names this exercise has gone by
+};
+
+export const EXERCISE_CATALOG: CatalogExercise[] = [
+  // horizontal push
+  { id: 'barbell-bench-press', name: 'Barbell Bench Press', lift: 'bench', muscleGroups: ['Chest', 'Triceps', 'Shoulders'], equipment: ['barbell', 'bench'], pattern: 'horizontal-push', sets: 4, reps: '6-10', aliases: ['Bench Press'] },
+  { id: 'dumbbell-bench-press', name: 'Dumbbell Bench Press', muscleGroups: ['Chest', 'Triceps', 'Shoulders'], equipment: ['dumbbell', 'bench'], pattern: 'horizontal-push', sets: 3, reps: '8-12' },
+  { id: 'incline-dumbbell-press', name: 'Incline Dumbbell Press', muscleGroups: ['Chest'], equipment: ['dumbbell', 'bench'], pattern: 'horizontal-push', sets: 3, reps: '8-12', aliases: ['Dumbbell Incline Bench Press'] },
+  { id: 'machine-chest-press', name: 'Machine Chest Press', muscleGroups: ['Chest', 'Triceps'], equipment: ['machine'], pattern: 'horizontal-push', sets: 3, reps: '8-12' },
+  { id: 'push-up', name: 'Push-Ups', muscleGroups: ['Chest', 'Triceps'], equipment: ['bodyweight'], pattern: 'horizontal-push', sets: 3, reps: '10-20' },
+  { id: 'dips', name: 'Dips (Assisted if needed)', muscleGroups: ['Chest', 'Triceps'], equipment: ['dip-station'], pattern: 'horizontal-push', sets: 3, reps: '6-12', aliases: ['Dips'] },
+  // vertical push
+  { id: 'overhead-press', name: 'Overhead Press', lift: 'ohp', muscleGroups: ['Shoulders', 'Triceps'], equipment: ['barbell'], pattern: 'vertical-push', sets: 4, reps: '6-10', aliases: ['Military Press', 'Barbell Shoulder Press'] },
+  { id: 'dumbbell-shoulder-press', name: 'Dumbbell Shoulder Press', muscleGroups: ['Shoulders', 'Triceps'], equipment: ['dumbbell'], pattern: 'vertical-push', sets: 3, reps: '8-12', aliases: ['Dumbbell Overhead Press'] },
+  { id: 'pike-push-up', name: 'Pike Push-Ups', muscleGroups: ['Shoulders', 'Triceps'], equipment: ['bodyweight'], pattern: 'vertical-push', sets: 3, reps: '8-15' },
+  // horizontal pull
+  { id: 'barbell-row', name: 'Barbell Row', lift: 'row', muscleGroups: ['Back', 'Biceps'], equipment: ['barbell'], pattern: 'horizontal-pull', sets: 4, reps: '6-10', aliases: ['Bent Over Row'] },
+  { id: 'dumbbell-row', name: 'One-Arm Dumbbell Row', muscleGroups: ['Back', 'Biceps'], equipment: ['dumbbell', 'bench'], pattern: 'horizontal-pull', sets: 3, reps: '8-12', aliases: ['Dumbbell Row'] },
+  { id: 'seated-cable-row', name: 'Seated Cable Row', muscleGroups: ['Back'], equipment: ['cable'], pattern: 'horizontal-pull', sets: 3, reps: '8-12', aliases: ['Seated Row'] },
+  { id: 'band-row', name: 'Band Row', muscleGroups: ['Back'], equipment: ['bands'], pattern: 'horizontal-pull', sets: 3, reps: '12-20' },
+  // vertical pull
+  { id: 'pull-up', name: 'Pull-Ups', muscleGroups: ['Back', 'Biceps'], equipment: ['pullup-bar'], pattern: 'vertical-pull', sets: 3, reps: '6-12', aliases: ['Pull-Ups / Lat Pulldown', 'Chin-Ups'] },
+  { id: 'lat-pulldown', name: 'Lat Pulldown', muscleGroups: ['Back', 'Biceps'], equipment: ['cable'], pattern: 'vertical-pull', sets: 3, reps: '8-12' },
+  { id: 'band-pulldown', name: 'Band Pulldown', muscleGroups: ['Back'], equipment: ['bands'], pattern: 'vertical-pull', sets: 3, reps: '12-20' },
+  // rear delts
+  { id: 'face-pull', name: 'Face Pulls', muscleGroups: ['Rear Delts', 'Upper Back'], equipment: ['cable'], pattern: 'rear-delt', sets: 3, reps: '12-15' },
+  { id: 'reverse-dumbbell-fly', name: 'Reverse Dumbbell Fly', muscleGroups: ['Rear Delts', 'Upper Back'], equipment: ['dumbbell'], pattern: 'rear-delt', sets: 3, reps: '12-15' },
+  { id: 'band-pull-apart', name: 'Band Pull-Aparts', muscleGroups: ['Rear Delts', 'Upper Back'], equipment: ['bands'], pattern: 'rear-delt', sets: 3, reps: '15-25' },
+  // lateral raises
+  { id: 'lateral-raise', name: 'Lateral Raises', muscleGroups: ['Shoulders'], equipment: ['dumbbell'], pattern: 'lateral-raise', sets: 3, reps: '12-15' },
+  { id: 'cable-lateral-raise', name: 'Cable Lateral Raises', muscleGroups: ['Shoulders'], equipment: ['cable'], pattern: 'lateral-raise', sets: 3, reps: '12-15' },
+  { id: 'band-lateral-raise', name: 'Band Lateral Raises', muscleGroups: ['Shoulders'], equipment: ['bands'], pattern: 'lateral-raise', sets: 3, reps: '15-20' },
+  // biceps
+  { id: 'dumbbell-curl', name: 'Dumbbell Curls', muscleGroups: ['Biceps'], equipment: ['dumbbell'], pattern: 'elbow-flexion', sets: 3, reps: '10-15', aliases: ['Bicep Curl', 'Dumbbell Bicep Curl'] },
+  { id: 'incline-dumbbell-curl', name: 'Incline Dumbbell Curls', muscleGroups: ['Biceps'], equipment: ['dumbbell', 'bench'], pattern: 'elbow-flexion', sets: 3, reps: '10-15' },
+  { id: 'hammer-curl', name: 'Hammer Curls', muscleGroups: ['Biceps', 'Forearms'], equipment: ['dumbbell'], pattern: 'elbow-flexion', sets: 3, reps: '10-15' },
+  { id: 'barbell-curl', name: 'Barbell Curls', muscleGroups: ['Biceps'], equipment: ['barbell'], pattern: 'elbow-flexion', sets: 3, reps: '8-12', aliases: ['Barbell Bicep Curl'] },
+  { id: 'cable-curl', name: 'Cable Curls', muscleGroups: ['Biceps'], equipment: ['cable'], pattern: 'elbow-flexion', sets: 3, reps: '10-15', aliases: ['Cable Bicep Curl'] },
+  { id: 'band-curl', name: 'Band Curls', muscleGroups: ['Biceps'], equipment: ['bands'], pattern: 'elbow-flexion', sets: 3, reps: '15-20' },
+  // triceps
+  { id: 'triceps-rope-pushdown', name: 'Triceps Rope Pushdown', muscleGroups: ['Triceps'], equipment: ['cable'], pattern: 'elbow-extension', sets: 3, reps: '10-15', aliases: ['Triceps Pushdown', 'Rope Pushdown'] },
+  { id: 'overhead-triceps-extension', name: 'Overhead Triceps Extension', muscleGroups: ['Triceps'], equipment: ['dumbbell'], pattern: 'elbow-extension', sets: 3, reps: '10-15' },
+  { id: 'skull-crusher', name: 'Skull Crushers', muscleGroups: ['Triceps'], equipment: ['barbell', 'bench'], pattern: 'elbow-extension', sets: 3, reps: '8-12', aliases: ['Lying Triceps Extension'] },
+  { id: 'band-pushdown', name: 'Band Pushdown', muscleGroups: ['Triceps'], equipment: ['bands'], pattern: 'elbow-extension', sets: 3, reps: '15-20' },
+  { id: 'bench-dip', name: 'Bench Dips', muscleGroups: ['Triceps'], equipment: ['bodyweight'], pattern: 'elbow-extension', sets: 3, reps: '10-15' },
+  // squat
+  { id: 'back-squat', name: 'Back Squat', lift: 'squat', muscleGroups: ['Quads', 'Glutes'], equipment: ['barbell', 'rack'], pattern: 'squat', sets: 4, reps: '5-8', aliases: ['Squat'] },
+  { id: 'goblet-squat', name: 'Goblet Squat', muscleGroups: ['Quads', 'Glutes'], equipment: ['dumbbell'], pattern: 'squat', sets: 3, reps: '8-12' },
+  { id: 'leg-press', name: 'Leg Press', muscleGroups: ['Quads'], equipment: ['machine'], pattern: 'squat', sets: 3, reps: '10-15' },
+  { id: 'bodyweight-squat', name: 'Bodyweight Squat', muscleGroups: ['Quads', 'Glutes'], equipment: ['bodyweight'], pattern: 'squat', sets: 3, reps: '15-25' },
+  // lunge
+  { id: 'walking-lunge', name: 'Walking Lunges', muscleGroups: ['Quads', 'Glutes'], equipment: ['dumbbell'], pattern: 'lunge', sets: 3, reps: '10-12', aliases: ['Lunge', 'Dumbbell Lunge'] },
+  { id: 'bulgarian-split-squat', name: 'Bulgarian Split Squat', muscleGroups: ['Quads', 'Glutes'], equipment: ['dumbbell', 'bench'], pattern: 'lunge', sets: 3, reps: '8-12' },
+  { id: 'reverse-lunge', name: 'Reverse Lunges', muscleGroups: ['Quads', 'Glutes'], equipment: ['bodyweight'], pattern: 'lunge', sets: 3, reps: '10-15' },
+  // hinge
+  { id: 'deadlift', name: 'Deadlift', lift: 'deadlift', muscleGroups: ['Hamstrings', 'Glutes', 'Back'], equipment: ['barbell'], pattern: 'hinge', sets: 3, reps: '3-5', aliases: ['Conventional Deadlift'] },
+  { id: 'romanian-deadlift', name: 'Romanian Deadlift', muscleGroups: ['Hamstrings', 'Glutes'], equipment: ['barbell'], pattern: 'hinge', sets: 3, reps: '6-10', aliases: ['RDL'] },
+  { id: 'dumbbell-romanian-deadlift', name: 'Dumbbell Romanian Deadlift', muscleGroups: ['Hamstrings', 'Glutes'], equipment: ['dumbbell'], pattern: 'hinge', sets: 3, reps: '8-12' },
+  { id: 'glute-bridge', name: 'Glute Bridge', muscleGroups: ['Glutes', 'Hamstrings'], equipment: ['bodyweight'], pattern: 'hinge', sets: 3, reps: '12-20' },
+  // knee flexion
+  { id: 'hamstring-curl', name: 'Hamstring Curl', muscleGroups: ['Hamstrings'], equipment: ['machine'], pattern: 'knee-flexion', sets: 3, reps: '10-15', aliases: ['Leg Curl', 'Lying Leg Curl', 'Seated Leg Curl'] },
+  { id: 'nordic-curl', name: 'Nordic Curl', muscleGroups: ['Hamstrings'], equipment: ['bodyweight'], pattern: 'knee-flexion', sets: 3, reps: '4-8' },
+  // calves
+  { id: 'calf-raise', name: 'Calf Raises', muscleGroups: ['Calves'], equipment: ['bodyweight'], pattern: 'calf', sets: 3, reps: '12-20', aliases: ['Standing Calf Raise'] },
+];
+
+export const CATALOG_BY_ID = new Map(EXERCISE_CATALOG.map(c => [c.id, c]));
+
+export const EQUIPMENT_PROFILES: Record<string, { name: string; equipment: Equipment[] }> = {
+  fullGym: { name: 'Full gym', equipment: ALL_EQUIPMENT },
+  homeGym: { name: 'Home gym', equipment: ['barbell', 'rack', 'bench', 'dumbbell', 'pullup-bar', 'bands', 'bodyweight'] },
+  hotel: { name: 'Hotel gym', equipment: ['dumbbell', 'bench', 'machine', 'bands', 'bodyweight'] },
+};
+
+function normalizeName(name: string) {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+// Looser than normalizeName: "Pull-Up" and "Pull Ups" are the same exercise
+function matchKey(name: string) {
+  return normalizeName(name).split(' ').map(w => (w.length > 3 ? w.replace(/s$/, '') : w)).join(' ');
+}
+
+// Match a free-text name against catalog names and aliases
+export function findCatalogByName(name: string): CatalogExercise | undefined {
+  const n = matchKey(name);
+  return EXERCISE_CATALOG.find(c => matchKey(c.name) === n || c.aliases?.some(a => matchKey(a) === n));
+}
+
+export function customCatalogId(name: string) {
+  return `custom:${normalizeName(name).replace(/ /g, '-')}`;
+}
+
+export function catalogIdForName(name: string) {
+  return findCatalogByName(name)?.id ?? customCatalogId(name);
+}
+
+export function hasEquipment(entry: CatalogExercise, equipment: Equipment[]) {
+  return entry.equipment.every(e => equipment.includes(e));
+}
+
+// Same movement pattern, doable with the equipment on hand, closest muscle overlap first
+export function alternativesFor(catalogId: string, equipment: Equipment[]): CatalogExercise[] {
+  const entry = CATALOG_BY_ID.get(catalogId);
+  if (!entry) return [];
+  const overlap = (c: CatalogExercise) => c.muscleGroups.filter(m => entry.muscleGroups.includes(m)).length;
+  return EXERCISE_CATALOG
+    .filter(c => c.id !== entry.id && c.pattern === entry.pattern && hasEquipment(c, equipment))
+    .sort((a, b) => overlap(b) - overlap(a));
+}
+
+export function exerciseFromCatalog(entry: CatalogExercise, sets = entry.sets, reps = entry.reps): Exercise {
+  return {
+    id: uid('ex'),
+    catalogId: entry.id,
+    name: entry.name,
+    primary: entry.lift ?? 'accessory',
+    muscleGroups: [...entry.muscleGroups],
+    sets,
+    reps,
+  };
+}
@@ -0,0 +1,58 @@
+import type { AppState, AssignedWorkout, Coaching, Session } from './types';
+import { DAY_MS, uid } from './util';
+import { computeReadiness } from './readiness';
+import { plannedSessionDone } from './block';
+import { emptySets } from './sessions';
+
+// Coaching: an athlete's standing for the roster, and turning a coach's assigned workout into a session.
+
+export type AthleteSummary = {
+  lastSession?: { dateISO: string; dayType: string };
+  readinessScore?: number; // absent without any history
+  adherence?: { done: number; due: number }; // training block slots done out of those due by now
+  sessionsLast28Days: number;
+};
+
+const ADHERENCE_WINDOW_DAYS = 28;
+
+export function athleteSummary({ setup, history }: AppState, nowISO: string): AthleteSummary {
+  const now = Date.parse(nowISO);
+  const since = now - ADHERENCE_WINDOW_DAYS * DAY_MS;
+  const last = history[0];
+  const due = (setup?.plan?.sessions ?? []).filter(p => !p.skipped && Date.parse(p.dateISO) <= now);
+  return {
+    lastSession: last && { dateISO: last.dateISO, dayType: last.dayType },
+    readinessScore: history.length ? computeReadiness(history, nowISO).score : undefined,
+    adherence: due.length ? { done: due.filter(p => plannedSessionDone(history, p)).length, due: due.length } : undefined,
+    sessionsLast28Days: history.filter(s => Date.parse(s.dateISO) > since && Date.parse(s.dateISO) <= now).length,
+  };
+}
+
+// The assigned workout, unless a session has already been started from it
+export function pendingAssignment(coaching: Coaching | null, history: Session[]): AssignedWorkout | null {
+  const assigned = coaching?.assigned;
+  if (!assigned || history.some(s => s.assignmentId === assigned.id)) return null;
+  return assigned;
+}
+
+// Comments on a session, including those left on the assignment it was started from
+export function commentsFor(coaching: Coaching | null, session: Session) {
+  return (coaching?.comments ?? []).filter(c => c.sessionId === session.id || (session.assignmentId && c.sessionId === session.assignmentId));
+}
+
+// A fresh session from the coach's workout: same exercises and targets, nothing logged
+export function sessionFromAssignment(assigned: AssignedWorkout, dateISO: string): Session {
+  const workout = assigned.workout.map(ex => ({ ...ex, id: uid('ex') }));
+  return {
+    id: uid('sess'),
+    dateISO,
+    dayId: assigned.dayId,
+    dayType: assigned.dayName,
+    muscleGroups: Array.from(new Set(workout.flatMap(w => w.muscleGroups))),
+    energy: 3,
+    difficulty: 3,
+    workout,
+    logs: workout.map(w => ({ exerciseId: w.id, sets: emptySets(w) })),
+    assignmentId: assigned.id,
+  };
+}
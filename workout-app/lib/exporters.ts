@@ -0,0 +1,134 @@
+import type { Exercise, Session, SetLog, Setup, Units } from './types';
+import { chronological } from './util';
+import { displayWeight, formatWeight } from './units';
+import { blockWeek, plannedSessionDone, previewPlannedSession } from './block';
+
+// Training data for spreadsheets and calendar apps. Both formats are plain text, ready to download.
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// "2024-03-05 18:02" in local time; the importer reads it back
+function localDateTime(iso: string) {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())} ${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
+
+const hasData = (st: SetLog) => st.weightLb !== undefined || st.reps !== undefined;
+
+// One row per logged set, oldest first; weights in the athlete's units
+export function sessionsToCSV(history: Session[], units: Units) {
+  const weight = (lb: number | undefined) => (lb === undefined ? undefined : displayWeight(lb, units));
+  const header = [
+    'Date', 'Workout', 'Exercise', 'Set', 'Set type', `Weight (${units})`, 'Reps', 'RPE', 'RIR',
+    `Target weight (${units})`, 'Target reps', 'Energy', 'Difficulty', 'Sleep hours', `Bodyweight (${units})`,
+  ];
+  const rows: (string | number | undefined)[][] = [header];
+  for (const s of chronological(history)) {
+    for (const log of s.logs) {
+      const ex = s.workout.find(w => w.id === log.exerciseId);
+      if (!ex) continue;
+      log.sets.filter(hasData).forEach((st, i) => {
+        rows.push([
+          localDateTime(s.dateISO), s.dayType, ex.name, String(i + 1), st.type, weight(st.weightLb), st.reps, st.rpe, st.rir,
+          weight(ex.targetWeightLb), ex.reps, s.energy, s.difficulty, s.sleepHours, weight(s.bodyweightLb),
+        ]);
+      });
+    }
+  }
+  return rows.map(r => r.map(csvField).join(',')).join('\r\n') + '\r\n';
+}
+
+// iCalendar text values escape \ ; , and newlines
+const icsText = (text: string) => text.replace(/[\\;,]/g, c => `\\${c}`).replace(/\r?\n/g, '\\n');
+
+const octets = (text: string) => new TextEncoder().encode(text).length;
+
+// Lines longer than 75 octets continue on the next line after a space (RFC 5545 3.1)
+function foldLine(line: string) {
+  const parts: string[] = [];
+  let rest = line;
+  while (octets(rest) > 75) {
+    let cut = 74;
+    while (octets(rest.slice(0, cut)) > 74) cut--;
+    parts.push(rest.slice(0, cut));
+    rest = ` ${rest.slice(cut)}`;
+  }
+  return [...parts, rest].join('\r\n');
+}
+
+const icsUTC = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+function icsDate(iso: string) {
+  const d = new Date(iso);
+  return `${d.getFullYear()}${String(d.getMonth() + 1).padStart(2, '0')}${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function exerciseLine(ex: Exercise, units: Units) {
+  const load = ex.targetWeightLb !== undefined ? ` @ ${formatWeight(ex.targetWeightLb, units)}` : '';
+  return `${ex.name}: ${ex.sets} x ${ex.reps}${load}`;
+}
+
+function loggedLine(ex: Exercise, sets: SetLog[], units: Units) {
+  const done = sets
+    .filter(st => st.type !== 'warmup' && hasData(st))
+    .map(st => `${st.weightLb !== undefined ? displayWeight(st.weightLb, units) : 'BW'}x${st.reps ?? '?'}`);
+  return done.length ? `  done: ${done.join(', ')}` : null;
+}
+
+const DEFAULT_DURATION_SEC = 3600;
+
+// Past sessions as timed events; open slots of the training block as all-day events with their targets
+export function sessionsToICS(setup: Setup | null, history: Session[], nowISO: string) {
+  const units = setup?.units ?? 'lb';
+  const stamp = icsUTC(nowISO);
+  const events: string[][] = [];
+
+  for (const s of chronological(history)) {
+    const end = new Date(Date.parse(s.dateISO) + (s.durationSec ?? DEFAULT_DURATION_SEC) * 1000).toISOString();
+    const lines = s.workout.flatMap(ex => {
+      const logged = loggedLine(ex, s.logs.find(l => l.exerciseId === ex.id)?.sets ?? [], units);
+      return logged ? [exerciseLine(ex, units), logged] : [exerciseLine(ex, units)];
+    });
+    events.push([
+      `UID:${s.id}@flex`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${icsUTC(s.dateISO)}`,
+      `DTEND:${icsUTC(end)}`,
+      `SUMMARY:${icsText(`${s.dayType}${s.deload ? ' (deload)' : ''}`)}`,
+      `DESCRIPTION:${icsText(lines.join('\n'))}`,
+    ]);
+  }
+
+  const plan = setup?.plan;
+  for (const p of plan?.sessions ?? []) {
+    if (!setup || !plan || p.skipped || plannedSessionDone(history, p)) continue;
+    const day = setup.split.days.find(d => d.id === p.dayId);
+    if (!day) continue;
+    const next = new Date(p.dateISO);
+    next.setDate(next.getDate() + 1);
+    const deload = blockWeek(plan, p.week).deload;
+    const lines = previewPlannedSession(setup, history, plan, p).map(ex => exerciseLine(ex, units));
+    events.push([
+      `UID:${p.id}@flex`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${icsDate(p.dateISO)}`,
+      `DTEND;VALUE=DATE:${icsDate(next.toISOString())}`,
+      `SUMMARY:${icsText(`${day.name} (week ${p.week}${deload ? ', deload' : ''})`)}`,
+      `DESCRIPTION:${icsText(lines.join('\n'))}`,
+    ]);
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Flex//Workouts//EN',
+    'CALSCALE:GREGORIAN',
+    ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']),
+    'END:VCALENDAR',
+  ];
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
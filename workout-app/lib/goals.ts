@@ -0,0 +1,123 @@
+import type { Exercise, Setup } from './types';
+import { CATALOG_BY_ID, EXERCISE_CATALOG, exerciseFromCatalog, hasEquipment } from './catalog';
+import { parseRepRange, withAdjustment } from './progression';
+
+// What the goal changes about a workout (sets, reps, rest, how many accessories) and fitting it into a time budget.
+
+type GoalScheme = {
+  primary: { sets: number; reps: string; restSec: number };
+  accessory: { sets: number; reps?: string; restSec: number }; // no reps: keep the exercise's own range
+  accessories: number; // most accessories in a 60-minute session
+};
+
+export const GOAL_SCHEMES: Record<Setup['goal'], GoalScheme> = {
+  Strength: { primary: { sets: 5, reps: '3-5', restSec: 180 }, accessory: { sets: 3, reps: '6-10', restSec: 120 }, accessories: 2 },
+  Hypertrophy: { primary: { sets: 4, reps: '6-10', restSec: 120 }, accessory: { sets: 3, restSec: 75 }, accessories: 4 },
+  Health: { primary: { sets: 3, reps: '8-12', restSec: 90 }, accessory: { sets: 2, reps: '12-15', restSec: 60 }, accessories: 3 },
+};
+
+export const SESSION_MINUTES = [30, 45, 60, 90] as const;
+export const DEFAULT_SESSION_MINUTES = 60;
+
+// Rest comes from the goal; sets and reps too, unless the split day was edited away from the catalog's defaults
+export function applyGoal(goal: Setup['goal'], ex: Exercise, edited: boolean): Exercise {
+  const scheme = ex.primary === 'accessory' ? GOAL_SCHEMES[goal].accessory : GOAL_SCHEMES[goal].primary;
+  if (edited) return { ...ex, restSec: scheme.restSec };
+  return { ...ex, sets: scheme.sets, reps: scheme.reps ?? ex.reps, restSec: scheme.restSec };
+}
+
+const SEC_PER_REP = 3;
+const WARMUP_SET_SEC = 60; // the set and a short breather
+const CHANGEOVER_SEC = 120; // moving to the next exercise and loading the bar
+
+// Reps in one working set: the top of a range, or the average of a "5/3/1+" wave
+function repsPerSet(ex: Exercise) {
+  if (ex.reps.includes('/')) {
+    const parts = ex.reps.split('/').map(p => parseInt(p, 10) || 0);
+    return parts.reduce((a, b) => a + b, 0) / parts.length;
+  }
+  return parseRepRange(ex.reps).max;
+}
+
+export function estimateExerciseSec(ex: Exercise, defaultRestSec: number) {
+  const rest = ex.restSec ?? defaultRestSec;
+  return (
+    CHANGEOVER_SEC +
+    (ex.warmups?.length ?? 0) * WARMUP_SET_SEC +
+    ex.sets * repsPerSet(ex) * SEC_PER_REP +
+    Math.max(0, ex.sets - 1) * rest
+  );
+}
+
+// Rest assumed for exercises planned before rest came from the goal
+export const DEFAULT_REST_SEC = { primary: 180, accessory: 90 };
+
+export function estimateWorkoutMinutes(workout: Exercise[]) {
+  const sec = workout.reduce(
+    (sum, ex) => sum + estimateExerciseSec(ex, ex.primary === 'accessory' ? DEFAULT_REST_SEC.accessory : DEFAULT_REST_SEC.primary),
+    0,
+  );
+  return Math.round(sec / 60);
+}
+
+// Accessories that suit the day: doable with the equipment and aimed at a muscle the day is built around
+// (the first muscle listed for each of its exercises). Movement patterns the day doesn't have yet come first.
+function accessoryCandidates(setup: Setup, workout: Exercise[], allow: (ex: Exercise) => boolean) {
+  const focus = new Set(workout.map(ex => ex.muscleGroups[0]));
+  const muscles = new Set(workout.flatMap(ex => ex.muscleGroups));
+  const ids = new Set(workout.map(ex => ex.catalogId));
+  const patterns = new Set(workout.flatMap(ex => CATALOG_BY_ID.get(ex.catalogId)?.pattern ?? []));
+  const overlap = (muscleGroups: string[]) => muscleGroups.filter(m => muscles.has(m)).length;
+  return EXERCISE_CATALOG
+    .filter(c => !c.lift && !ids.has(c.id) && hasEquipment(c, setup.equipment) && focus.has(c.muscleGroups[0]))
+    .filter(c => allow(exerciseFromCatalog(c)))
+    .sort((a, b) => Number(patterns.has(a.pattern)) - Number(patterns.has(b.pattern)) || overlap(b.muscleGroups) - overlap(a.muscleGroups));
+}
+
+// Trim or top up accessories so the estimate lands within `minutes`. The goal's accessory count scales with
+// the budget. When dropping every accessory isn't enough, working sets come off one at a time (never below 2).
+// `prepare` readies an added accessory the way the rest of the session was (progression, deload, block week);
+// `allow` can rule candidates out.
+export function fitToTime(
+  setup: Setup, workout: Exercise[], minutes: number, prepare: (ex: Exercise) => Exercise, allow: (ex: Exercise) => boolean = () => true,
+): Exercise[] {
+  const scheme = GOAL_SCHEMES[setup.goal];
+  const ceiling = Math.max(1, Math.round((scheme.accessories * minutes) / DEFAULT_SESSION_MINUTES));
+  let out = [...workout];
+  const accessories = () => out.filter(ex => ex.primary === 'accessory').length;
+  const over = () => estimateWorkoutMinutes(out) > minutes;
+
+  // over the ceiling or the time: drop accessories from the end
+  while (accessories() > 0 && (accessories() > ceiling || over())) {
+    const last = out.map(ex => ex.primary).lastIndexOf('accessory');
+    out = out.filter((_, i) => i !== last);
+  }
+
+  // still over: a set off the biggest exercises; 5/3/1 waves keep their sets
+  const trimmed = new Map<string, number>();
+  while (over()) {
+    const candidates = out.filter(ex => ex.sets > 2 && ex.scheme?.strategy !== 'wave531');
+    if (candidates.length === 0) break;
+    const most = candidates.reduce((a, b) => (b.sets > a.sets ? b : a));
+    trimmed.set(most.id, trimmed.get(most.id) ?? most.sets);
+    out = out.map(ex => (ex.id === most.id ? { ...ex, sets: ex.sets - 1 } : ex));
+  }
+  out = out.map(ex => {
+    const from = trimmed.get(ex.id);
+    if (from === undefined) return ex;
+    const cut = `Time budget of ${minutes} min: ${from} → ${ex.sets} sets`;
+    return withAdjustment({ ...ex, notes: ex.notes ? `${cut} · ${ex.notes}` : cut }, cut);
+  });
+
+  // room to spare: add accessories while they fit, one per movement pattern
+  const added = new Set<string>();
+  for (const entry of accessoryCandidates(setup, out, allow)) {
+    if (accessories() >= ceiling) break;
+    if (added.has(entry.pattern)) continue;
+    const ex = prepare(applyGoal(setup.goal, { ...exerciseFromCatalog(entry), notes: `Added to fill ${minutes} min` }, false));
+    if (estimateWorkoutMinutes([...out, ex]) > minutes) continue;
+    out = [...out, ex];
+    added.add(entry.pattern);
+  }
+  return out;
+}
@@ -0,0 +1,375 @@
+import type { Equipment, Exercise, ExerciseLog, Session, SetLog, SetType, Units } from './types';
+import { uid } from './util';
+import { toLb } from './units';
+import { CATALOG_BY_ID, customCatalogId, exerciseFromCatalog, findCatalogByName } from './catalog';
+
+// Training history from other apps' CSV exports. Nothing is saved here: previewImport turns a
+// file into sessions plus what the athlete should check first (duplicates, unknown exercises).
+
+export type ImportFormat = 'strong' | 'hevy' | 'generic';
+
+export const IMPORT_FORMATS: Record<ImportFormat, string> = {
+  strong: 'Strong',
+  hevy: 'Hevy',
+  generic: 'Other (map columns)',
+};
+
+export type ImportField = 'date' | 'workout' | 'exercise' | 'weight' | 'reps' | 'rpe' | 'setType' | 'notes';
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required?: boolean }[] = [
+  { field: 'date', label: 'Date', required: true },
+  { field: 'workout', label: 'Workout name' },
+  { field: 'exercise', label: 'Exercise', required: true },
+  { field: 'weight', label: 'Weight' },
+  { field: 'reps', label: 'Reps' },
+  { field: 'rpe', label: 'RPE' },
+  { field: 'setType', label: 'Set type' },
+  { field: 'notes', label: 'Notes' },
+];
+
+// Header to read each field from, for files in the generic layout
+export type ColumnMap = Partial<Record<ImportField, string>>;
+
+export type ImportOptions = {
+  format: ImportFormat;
+  units: Units; // for weights when the file doesn't say
+  columns?: ColumnMap; // generic layout only
+  mapping?: Record<string, string>; // exercise name in the file -> catalog id, or CUSTOM_EXERCISE
+};
+
+export const CUSTOM_EXERCISE = 'custom';
+
+export type ImportedExercise = {
+  name: string; // as written in the file
+  catalogId: string | null; // null: imported as a custom exercise
+  matched: boolean; // recognised without help from `mapping`
+  sets: number;
+};
+
+export type ImportPreview = {
+  sessions: Session[];
+  duplicateIds: string[]; // sessions that look like ones already in the history
+  exercises: ImportedExercise[];
+  skipped: { line: number; reason: string }[];
+};
+
+export type ImportResult = ({ ok: true } & ImportPreview) | { ok: false; reason: string };
+
+// One set, whatever app it came from
+type ImportRow = {
+  line: number;
+  dateISO: string;
+  workout: string;
+  exercise: string;
+  set: SetLog;
+  notes?: string;
+  durationSec?: number;
+};
+
+// RFC 4180-ish: quoted fields may hold delimiters, newlines and "" escapes. Strong writes ';' in some locales.
+export function parseCSV(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"') quoted = true;
+    else if (c === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (c === '\n' || c === '\r') {
+      if (c === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else field += c;
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter(r => r.some(f => f.trim() !== ''));
+}
+
+const key = (header: string) => header.trim().toLowerCase();
+
+export function detectFormat(headers: string[]): ImportFormat {
+  const h = headers.map(key);
+  if (h.includes('exercise_title') && h.includes('set_index')) return 'hevy';
+  if (h.includes('exercise name') && h.includes('set order')) return 'strong';
+  return 'generic';
+}
+
+// First header that looks like each field; the athlete can correct these before importing
+export function guessColumns(headers: string[]): ColumnMap {
+  const patterns: Record<ImportField, RegExp> = {
+    date: /date|time|day|when/,
+    workout: /workout|session|routine|title/,
+    exercise: /exercise|movement|lift/,
+    weight: /weight|load|kg|lb/,
+    reps: /reps?$|repetitions/,
+    rpe: /rpe/,
+    setType: /set.?type|kind/,
+    notes: /note|comment/,
+  };
+  const columns: ColumnMap = {};
+  const taken = new Set<string>();
+  for (const { field } of IMPORT_FIELDS) {
+    const header = headers.find(h => !taken.has(h) && patterns[field].test(key(h)));
+    if (header) {
+      columns[field] = header;
+      taken.add(header);
+    }
+  }
+  return columns;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Local date and time, as the apps write them: "2024-03-05 18:02:11", "5 Mar 2024, 18:02", "3/5/2024"
+function parseDateTime(text: string): string | null {
+  const t = text.trim();
+  let m = t.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+  if (m) return localISO(+m[1], +m[2], +m[3], m[4], m[5], m[6]);
+  m = t.match(/^(\d{1,2}) ([a-z]{3})[a-z]* (\d{4}),? ?(?:(\d{1,2}):(\d{2}))?$/i);
+  if (m && MONTHS.includes(m[2].toLowerCase())) return localISO(+m[3], MONTHS.indexOf(m[2].toLowerCase()) + 1, +m[1], m[4], m[5]);
+  m = t.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:,? (\d{1,2}):(\d{2}))?$/);
+  if (m) return localISO(+m[3], +m[1], +m[2], m[4], m[5]);
+  const parsed = Date.parse(t);
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString() : null;
+}
+
+// A bare date is taken as midday, like backfilled sessions
+function localISO(y: number, mo: number, d: number, h?: string, mi?: string, s?: string) {
+  const date = h === undefined ? new Date(y, mo - 1, d, 12) : new Date(y, mo - 1, d, +h, +(mi ?? 0), +(s ?? 0));
+  return Number.isNaN(date.getTime()) || date.getDate() !== d ? null : date.toISOString();
+}
+
+function parseNumber(text: string | undefined) {
+  const n = parseFloat((text ?? '').replace(',', '.'));
+  return Number.isFinite(n) ? n : undefined;
+}
+
+// Strong writes "1h 5m"; bare numbers are seconds
+function parseDuration(text: string | undefined) {
+  if (!text) return undefined;
+  if (/^\d+$/.test(text.trim())) return +text;
+  const part = (unit: string) => +(text.match(new RegExp(`(\\d+)\\s*${unit}`))?.[1] ?? 0);
+  const sec = part('h') * 3600 + part('m') * 60 + part('s');
+  return sec > 0 ? sec : undefined;
+}
+
+// Strong: a set number, or W/D/F. Hevy: normal/warmup/dropset/failure.
+function parseSetType(text: string | undefined): SetType | null {
+  const t = (text ?? '').trim().toLowerCase();
+  if (t === '' || /^\d+$/.test(t) || t === 'normal' || t === 'working') return 'working';
+  if (t === 'w' || t.startsWith('warm')) return 'warmup';
+  if (t === 'd' || t.startsWith('drop')) return 'drop';
+  if (t === 'f' || t.startsWith('fail')) return 'failure';
+  return null;
+}
+
+// The unit written in a weight header, e.g. "Weight (kg)" or "weight_lbs"
+function headerUnits(header: string): Units | null {
+  if (/kg/i.test(header)) return 'kg';
+  if (/lb/i.test(header)) return 'lb';
+  return null;
+}
+
+// A row as a set, or why it can't be imported
+type Reader = (row: string[]) => Omit<ImportRow, 'line'> | string;
+
+function readerFor(headers: string[], options: ImportOptions): Reader | string {
+  const index = (name?: string) => (name ? headers.findIndex(h => key(h) === key(name)) : -1);
+  const cell = (row: string[], i: number) => (i >= 0 ? row[i]?.trim() || undefined : undefined);
+
+  let columns: ColumnMap & { duration?: string; end?: string };
+  if (options.format === 'strong') {
+    columns = {
+      date: 'Date', workout: 'Workout Name', exercise: 'Exercise Name', reps: 'Reps', rpe: 'RPE',
+      setType: 'Set Order', notes: 'Notes', duration: 'Duration',
+      weight: headers.find(h => key(h).startsWith('weight')),
+    };
+  } else if (options.format === 'hevy') {
+    columns = {
+      date: 'start_time', end: 'end_time', workout: 'title', exercise: 'exercise_title', reps: 'reps', rpe: 'rpe',
+      setType: 'set_type', notes: 'exercise_notes',
+      weight: headers.find(h => key(h).startsWith('weight')),
+    };
+  } else {
+    columns = options.columns ?? guessColumns(headers);
+  }
+
+  const at = Object.fromEntries(Object.entries(columns).map(([field, header]) => [field, index(header)]));
+  const missing = IMPORT_FIELDS.filter(f => f.required && !(at[f.field] >= 0)).map(f => f.label.toLowerCase());
+  if (missing.length) return `no ${missing.join(' or ')} column`;
+  const units = (columns.weight && headerUnits(columns.weight)) || options.units;
+
+  return row => {
+    const dateISO = parseDateTime(cell(row, at.date) ?? '');
+    if (!dateISO) return `unreadable date "${cell(row, at.date) ?? ''}"`;
+    const exercise = cell(row, at.exercise);
+    if (!exercise) return 'no exercise name';
+    const type = parseSetType(cell(row, at.setType));
+    if (!type) return `"${cell(row, at.setType)}" is not a set`;
+    const weight = parseNumber(cell(row, at.weight));
+    const reps = parseNumber(cell(row, at.reps));
+    if (!weight && !reps) return 'no weight or reps (timed and cardio sets are not imported)';
+    const rpe = parseNumber(cell(row, at.rpe));
+
+    const set: SetLog = { type };
+    if (weight) set.weightLb = Math.round(toLb(weight, units) * 100) / 100;
+    if (reps !== undefined) set.reps = Math.round(reps);
+    if (rpe !== undefined && rpe >= 1 && rpe <= 10) set.rpe = rpe;
+
+    const end = parseDateTime(cell(row, at.end) ?? '');
+    const durationSec = end
+      ? Math.round((Date.parse(end) - Date.parse(dateISO)) / 1000)
+      : parseDuration(cell(row, at.duration));
+    return {
+      dateISO,
+      workout: cell(row, at.workout) ?? '',
+      exercise,
+      set,
+      notes: cell(row, at.notes),
+      durationSec: durationSec && durationSec > 0 ? durationSec : undefined,
+    };
+  };
+}
+
+const EQUIPMENT_WORDS: Record<string, Equipment> = {
+  barbell: 'barbell', dumbbell: 'dumbbell', cable: 'cable', machine: 'machine', bodyweight: 'bodyweight', band: 'bands',
+};
+
+// "Bench Press (Barbell)" is tried as written, as "Barbell Bench Press" and as "Bench Press" on barbell
+function matchExercise(name: string) {
+  const direct = findCatalogByName(name);
+  if (direct) return direct;
+  const m = name.match(/^(.*?)\s*\(([^)]*)\)\s*$/);
+  if (!m) return undefined;
+  const [, base, qualifier] = m;
+  const reordered = findCatalogByName(`${qualifier} ${base}`);
+  if (reordered) return reordered;
+  const entry = findCatalogByName(base);
+  const equipment = EQUIPMENT_WORDS[qualifier.toLowerCase().replace(/s$/, '')];
+  return entry && (!equipment || entry.equipment.includes(equipment)) ? entry : undefined;
+}
+
+function localDay(iso: string) {
+  return new Date(iso).toDateString();
+}
+
+// Same day and mostly the same exercises as a session already logged
+function isDuplicate(session: Session, history: Session[]) {
+  const ids = session.workout.map(ex => ex.catalogId);
+  return history.some(h => {
+    if (localDay(h.dateISO) !== localDay(session.dateISO)) return false;
+    const shared = ids.filter(id => h.workout.some(ex => ex.catalogId === id)).length;
+    return shared * 2 >= ids.length;
+  });
+}
+
+// "8-10" from the working sets, or whatever was logged if there were none
+function repsLabel(sets: SetLog[]) {
+  const working = sets.filter(st => st.type === 'working' && st.reps !== undefined);
+  const reps = (working.length ? working : sets).map(st => st.reps).filter((r): r is number => r !== undefined);
+  if (reps.length === 0) return '';
+  const min = Math.min(...reps);
+  const max = Math.max(...reps);
+  return min === max ? `${min}` : `${min}-${max}`;
+}
+
+export function previewImport(text: string, options: ImportOptions, history: Session[]): ImportResult {
+  const [headers, ...rows] = parseCSV(text);
+  if (!headers || rows.length === 0) return { ok: false, reason: 'the file has no rows' };
+  const reader = readerFor(headers, options);
+  if (typeof reader === 'string') return { ok: false, reason: reader };
+
+  const skipped: ImportPreview['skipped'] = [];
+  const groups = new Map<string, ImportRow[]>();
+  rows.forEach((row, i) => {
+    const read = reader(row);
+    // line numbers as a spreadsheet shows them, counting the header
+    if (typeof read === 'string') skipped.push({ line: i + 2, reason: read });
+    else {
+      const group = `${read.dateISO}|${read.workout}`;
+      groups.set(group, [...(groups.get(group) ?? []), { ...read, line: i + 2 }]);
+    }
+  });
+
+  const exercises = new Map<string, ImportedExercise>();
+  for (const r of Array.from(groups.values()).flat()) {
+    const known = exercises.get(r.exercise);
+    if (known) {
+      known.sets++;
+      continue;
+    }
+    const chosen = options.mapping?.[r.exercise];
+    const auto = matchExercise(r.exercise)?.id ?? null;
+    const catalogId = chosen === CUSTOM_EXERCISE ? null : chosen && CATALOG_BY_ID.has(chosen) ? chosen : auto;
+    exercises.set(r.exercise, { name: r.exercise, catalogId, matched: auto !== null, sets: 1 });
+  }
+
+  // placeholder ids, so previewing again (after a new mapping, say) gives the same sessions; commitImport assigns real ones
+  const sessions = Array.from(groups.values()).map((group, i) => {
+    const workout: Exercise[] = [];
+    const logs: ExerciseLog[] = [];
+    for (const name of Array.from(new Set(group.map(r => r.exercise)))) {
+      const rowsFor = group.filter(r => r.exercise === name);
+      const sets = rowsFor.map(r => r.set);
+      const entry = CATALOG_BY_ID.get(exercises.get(name)?.catalogId ?? '');
+      const base: Exercise = entry
+        ? exerciseFromCatalog(entry)
+        : { id: '', catalogId: customCatalogId(name), name, primary: 'accessory', muscleGroups: [], sets: 0, reps: '' };
+      const working = sets.filter(st => st.type !== 'warmup');
+      const top = Math.max(0, ...working.map(st => st.weightLb ?? 0));
+      const ex: Exercise = { ...base, id: `import-${i}-${workout.length}`, sets: working.length || sets.length, reps: repsLabel(sets) || base.reps };
+      if (top > 0) ex.targetWeightLb = top;
+      workout.push(ex);
+
+      const notes = Array.from(new Set(rowsFor.map(r => r.notes).filter(Boolean))).join('; ');
+      logs.push(notes ? { exerciseId: ex.id, sets, notes } : { exerciseId: ex.id, sets });
+    }
+    const first = group[0];
+    const session: Session = {
+      id: `import-${i}`,
+      dateISO: first.dateISO,
+      dayType: first.workout || 'Imported workout',
+      muscleGroups: Array.from(new Set(workout.flatMap(ex => ex.muscleGroups))),
+      energy: 3,
+      difficulty: 3,
+      workout,
+      logs,
+    };
+    if (first.durationSec) session.durationSec = first.durationSec;
+    return session;
+  });
+
+  return {
+    ok: true,
+    sessions,
+    duplicateIds: sessions.filter(s => isDuplicate(s, history)).map(s => s.id),
+    exercises: Array.from(exercises.values()),
+    skipped,
+  };
+}
+
+// The previewed sessions chosen for import, with real ids
+export function commitImport(sessions: Session[]): Session[] {
+  return sessions.map(s => {
+    const ids = new Map(s.workout.map(ex => [ex.id, uid('ex')]));
+    return {
+      ...s,
+      id: uid('sess'),
+      workout: s.workout.map(ex => ({ ...ex, id: ids.get(ex.id)! })),
+      logs: s.logs.map(l => ({ ...l, exerciseId: ids.get(l.exerciseId) ?? l.exerciseId })),
+    };
+  });
+}
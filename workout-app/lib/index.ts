@@ -0,0 +1,56 @@
+// The planning engine without the UI: everything the page uses to plan and analyse training,
+// for scripts and the `flex` command line. Nothing in here touches the DOM, storage or the network.
+
+export type * from './types';
+export { SCHEMA_VERSION, GOALS, LIFT_KEYS, ALL_EQUIPMENT, SET_TYPES, PROGRESSION_IDS, PAIN_SEVERITIES, validateState } from './schema';
+export { DEFAULT_PLATES, fromLb, toLb, displayWeight, formatWeight, roundLoad, describePlates } from './units';
+export { EXERCISE_CATALOG, CATALOG_BY_ID, EQUIPMENT_PROFILES, alternativesFor, exerciseFromCatalog } from './catalog';
+export { SPLIT_PRESETS, pickNextDay, buildDayWorkout } from './splits';
+export {
+  DEFAULT_PROGRESSION, PROGRESSION_STRATEGIES, estimate1RMFrom5RM, parseRepRange, prescribeExercise, progressionHistory, workingSetLoads,
+  summarizeLoggedSets,
+} from './progression';
+export { computeReadiness, applyDeload } from './readiness';
+export {
+  GOAL_SCHEMES, SESSION_MINUTES, DEFAULT_SESSION_MINUTES, applyGoal, estimateExerciseSec, estimateWorkoutMinutes, fitToTime,
+} from './goals';
+export {
+  PAIN_AREAS, EASE_BACK_DAYS, painFlagLabel, painFlagStatus, painAllows, avoidPain, capForPain,
+} from './pain';
+export {
+  RETEST_INTERVALS_WEEKS, recordSetupBaselines, liftsInSplit, retestDue, planRetestSession, proposeBaselines,
+  appliedBaselines, applyRetest, type BaselineProposal,
+} from './baselines';
+export { DEFAULT_WARMUP, WARMUP_PRESETS, warmupSets, withWarmups, formatWarmupSteps, parseWarmupSteps } from './warmups';
+export {
+  scheduleBlock, blockWeek, blockWeekLabel, nextPlannedSession, plannedSessionDone, movePlannedSession,
+  previewPlannedSession, type BlockWeek,
+} from './block';
+export {
+  emptySets, planSession, planBlockSession, planNextSession, nextWorkoutDay, duplicateSession, prescribedReps,
+  setTarget,
+} from './sessions';
+export { emptyState, parseStoredState, storedState } from './storage';
+export {
+  IMPORT_FORMATS, IMPORT_FIELDS, CUSTOM_EXERCISE, parseCSV, detectFormat, guessColumns, previewImport, commitImport,
+  type ImportFormat, type ImportField, type ColumnMap, type ImportOptions, type ImportedExercise, type ImportPreview,
+  type ImportResult,
+} from './importers';
+export { sessionsToCSV, sessionsToICS } from './exporters';
+export {
+  e1RMHistory, weeklyVolume, detectRepMaxPRs, type SeriesPoint, type MuscleVolume, type WeeklyVolume,
+  type RepMaxPR,
+} from './analytics';
+export {
+  STRENGTH_TIERS, scoringSex, bodyweightSeries, currentBodyweightLb, dotsScore, wilksScore, relativeStrength,
+  type ScoringSex, type StrengthTier, type LiftStrength, type RelativeStrength,
+} from './strength';
+export {
+  athleteSummary, pendingAssignment, commentsFor, sessionFromAssignment, type AthleteSummary,
+} from './coaching';
+export { mergeSession, mergeLogs, type MergeResult } from './merge';
+export {
+  SIMULATED_ATHLETES, seededRandom, simulateHistory, checkProgression, type AthleteProfile, type SimulatedHistory,
+  type ProgressionCheck,
+} from './simulate';
+export { DAY_MS, withIdSource, type IdSource } from './util';
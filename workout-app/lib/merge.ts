@@ -0,0 +1,93 @@
+import type { ExerciseLog, Session, SetLog } from './types';
+
+// Three-way merges for edits that were made offline. `base` is what the editing device last
+// knew, `mine` is what it has now and `server` is what is stored. Whatever the device changed
+// wins; everything else keeps the server's value. Fields both sides changed are reported.
+
+export type MergeResult<T> = { value: T; conflicts: string[] };
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+  const ka = Object.keys(a).filter(k => (a as Record<string, unknown>)[k] !== undefined);
+  const kb = Object.keys(b).filter(k => (b as Record<string, unknown>)[k] !== undefined);
+  if (ka.length !== kb.length) return false;
+  return ka.every(k => sameValue((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+function mergeField<T>(server: T, base: T, mine: T, label: string, conflicts: string[]): T {
+  if (sameValue(mine, base)) return server;
+  if (!sameValue(server, base) && !sameValue(server, mine)) conflicts.push(label);
+  return mine;
+}
+
+const SET_FIELDS: (keyof SetLog)[] = ['type', 'weightLb', 'reps', 'rpe', 'rir'];
+
+function mergeSets(server: SetLog[], base: SetLog[], mine: SetLog[], label: string, conflicts: string[]): SetLog[] {
+  // adding or removing sets counts as a change to the list length
+  const length = mergeField(server.length, base.length, mine.length, `${label}: number of sets`, conflicts);
+  return Array.from({ length }, (_, i) => {
+    const s = server[i] ?? mine[i];
+    const b = base[i] ?? {};
+    const m = mine[i] ?? s;
+    const merged = { ...s };
+    for (const f of SET_FIELDS) {
+      const value = mergeField(s[f], (b as SetLog)[f], m[f], `${label}, set ${i + 1} ${f}`, conflicts);
+      if (value === undefined) delete merged[f];
+      else Object.assign(merged, { [f]: value });
+    }
+    return merged;
+  });
+}
+
+// Logs are merged per exercise, per set and per set field
+export function mergeLogs(
+  server: ExerciseLog[],
+  base: ExerciseLog[],
+  mine: ExerciseLog[],
+  nameOf: (exerciseId: string) => string,
+): MergeResult<ExerciseLog[]> {
+  const conflicts: string[] = [];
+  const find = (logs: ExerciseLog[], id: string) => logs.find(l => l.exerciseId === id);
+  const ids = Array.from(new Set([...server, ...mine].map(l => l.exerciseId)));
+  const value: ExerciseLog[] = [];
+  for (const id of ids) {
+    const s = find(server, id);
+    const b = find(base, id);
+    const m = find(mine, id);
+    if (!s) {
+      // the server never had it or dropped it; keep ours only if we added it
+      if (m && !b) value.push(m);
+      continue;
+    }
+    if (!m) {
+      // we removed it unless it is new on the server
+      if (b) continue;
+      value.push(s);
+      continue;
+    }
+    const label = nameOf(id);
+    const merged: ExerciseLog = { ...s, sets: mergeSets(s.sets, b?.sets ?? [], m.sets, label, conflicts) };
+    const notes = mergeField(s.notes, b?.notes, m.notes, `${label} notes`, conflicts);
+    if (notes === undefined) delete merged.notes;
+    else merged.notes = notes;
+    value.push(merged);
+  }
+  return { value, conflicts };
+}
+
+// Sessions are merged field by field, with logs going through mergeLogs
+export function mergeSession(server: Session, base: Session, mine: Session): MergeResult<Session> {
+  const conflicts: string[] = [];
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(server), ...Object.keys(base), ...Object.keys(mine)]) as Set<keyof Session>;
+  for (const k of keys) {
+    if (k === 'logs') continue;
+    const value = mergeField(server[k], base[k], mine[k], k, conflicts);
+    if (value !== undefined) merged[k] = value;
+  }
+  const workout = merged.workout as Session['workout'];
+  const logs = mergeLogs(server.logs, base.logs, mine.logs, id => workout.find(ex => ex.id === id)?.name ?? id);
+  return { value: { ...(merged as Session), logs: logs.value }, conflicts: [...conflicts, ...logs.conflicts] };
+}
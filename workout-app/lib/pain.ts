@@ -0,0 +1,119 @@
+import type { Exercise, PainFlag, PainSeverity, Setup } from './types';
+import { DAY_MS } from './util';
+import { roundLoad } from './units';
+import { alternativesFor, CATALOG_BY_ID, exerciseFromCatalog, type MovementPattern } from './catalog';
+import { withAdjustment } from './progression';
+
+// Pain and injury flags: which exercises they rule out or swap, and how far they cap the main lifts' loads.
+
+// Joints and the movement patterns that load them. Muscle groups can be flagged too; they cover every
+// exercise that lists them.
+export const PAIN_AREAS: Record<string, MovementPattern[]> = {
+  Shoulder: ['horizontal-push', 'vertical-push', 'lateral-raise'],
+  Elbow: ['elbow-flexion', 'elbow-extension'],
+  Wrist: ['horizontal-push', 'vertical-push', 'elbow-flexion'],
+  'Lower back': ['hinge', 'squat', 'horizontal-pull'],
+  Hip: ['hinge', 'squat', 'lunge'],
+  Knee: ['squat', 'lunge', 'knee-flexion'],
+  Ankle: ['lunge', 'calf'],
+};
+
+// While a flag is active. Mild caps the main lifts; moderate also swaps accessories that load the area;
+// severe swaps or drops everything that does.
+const SEVERITY: Record<PainSeverity, { cap: number; swap: 'none' | 'accessories' | 'all' }> = {
+  mild: { cap: 0.9, swap: 'none' },
+  moderate: { cap: 0.75, swap: 'accessories' },
+  severe: { cap: 0.6, swap: 'all' },
+};
+
+// After the expected end, loads climb back from the flag's cap to normal over this long
+export const EASE_BACK_DAYS = 14;
+
+export function painFlagLabel(flag: PainFlag) {
+  const what = flag.catalogId ? CATALOG_BY_ID.get(flag.catalogId)?.name ?? flag.catalogId : (flag.area ?? '');
+  return flag.side ? `${what} (${flag.side})` : what;
+}
+
+export function painFlagStatus(flag: PainFlag, dateISO: string): 'active' | 'easing' | 'cleared' {
+  const t = Date.parse(dateISO);
+  const until = Date.parse(flag.untilISO);
+  if (t < until) return 'active';
+  return t < until + EASE_BACK_DAYS * DAY_MS ? 'easing' : 'cleared';
+}
+
+// The share of the planned load a flag allows on `dateISO`, or undefined once it has cleared
+function flagCap(flag: PainFlag, dateISO: string) {
+  const status = painFlagStatus(flag, dateISO);
+  const { cap } = SEVERITY[flag.severity];
+  if (status === 'active') return cap;
+  if (status === 'cleared') return undefined;
+  const eased = (Date.parse(dateISO) - Date.parse(flag.untilISO)) / (EASE_BACK_DAYS * DAY_MS);
+  return cap + (1 - cap) * eased;
+}
+
+function flagCovers(flag: PainFlag, catalogId: string, muscleGroups: string[]) {
+  if (flag.catalogId) return flag.catalogId === catalogId;
+  if (!flag.area) return false;
+  const patterns = PAIN_AREAS[flag.area];
+  if (!patterns) return muscleGroups.includes(flag.area);
+  const pattern = CATALOG_BY_ID.get(catalogId)?.pattern;
+  return pattern !== undefined && patterns.includes(pattern);
+}
+
+function mustSwap(flag: PainFlag, ex: Pick<Exercise, 'catalogId' | 'muscleGroups' | 'primary'>) {
+  const { swap } = SEVERITY[flag.severity];
+  if (!flagCovers(flag, ex.catalogId, ex.muscleGroups)) return false;
+  // an exercise marked painful is swapped however mild, since something else can train the same pattern
+  if (flag.catalogId) return true;
+  return swap === 'all' || (swap === 'accessories' && ex.primary === 'accessory');
+}
+
+function activeFlags(setup: Setup, dateISO: string) {
+  return (setup.painFlags ?? []).filter(f => painFlagStatus(f, dateISO) === 'active');
+}
+
+// Whether an exercise can go into a session on `dateISO` without loading an active flag's area
+export function painAllows(setup: Setup, ex: Pick<Exercise, 'catalogId' | 'muscleGroups' | 'primary'>, dateISO: string) {
+  return !activeFlags(setup, dateISO).some(f => mustSwap(f, ex));
+}
+
+// Swap exercises that active flags rule out for the nearest alternative that avoids them, or drop them.
+// Runs before progression, so a swapped-in main lift is prescribed like any other.
+export function avoidPain(setup: Setup, workout: Exercise[], dateISO: string): Exercise[] {
+  const flags = activeFlags(setup, dateISO);
+  if (flags.length === 0) return workout;
+  const out: Exercise[] = [];
+  for (const ex of workout) {
+    const flag = flags.find(f => mustSwap(f, ex));
+    if (!flag) {
+      out.push(ex);
+      continue;
+    }
+    const alt = alternativesFor(ex.catalogId, setup.equipment)
+      .find(c => !out.some(o => o.catalogId === c.id) && painAllows(setup, { catalogId: c.id, muscleGroups: c.muscleGroups, primary: c.lift ?? 'accessory' }, dateISO));
+    if (!alt) continue;
+    const swapped = exerciseFromCatalog(alt, ex.sets, ex.primary === 'accessory' ? ex.reps : alt.reps);
+    const why = flag.catalogId ? 'marked painful' : `pain: ${painFlagLabel(flag)}`;
+    out.push({ ...swapped, id: ex.id, restSec: ex.restSec, notes: `Swapped from ${ex.name} (${why})` });
+  }
+  return out;
+}
+
+// Hold a main lift's load to the lowest cap among flags covering it, easing back after they expire
+export function capForPain(setup: Setup, ex: Exercise, dateISO: string): Exercise {
+  if (ex.primary === 'accessory' || !ex.targetWeightLb) return ex;
+  let cap = 1;
+  let cause: PainFlag | undefined;
+  for (const flag of setup.painFlags ?? []) {
+    const c = flagCap(flag, dateISO);
+    if (c === undefined || c >= cap || !flagCovers(flag, ex.catalogId, ex.muscleGroups)) continue;
+    cap = c;
+    cause = flag;
+  }
+  if (!cause) return ex;
+  const pct = Math.round(cap * 100);
+  const easing = painFlagStatus(cause, dateISO) === 'easing';
+  const capped = { ...ex, targetWeightLb: roundLoad(setup, ex.targetWeightLb * cap), painCap: cap };
+  const label = `${painFlagLabel(cause)}, ${cause.severity}`;
+  return withAdjustment(capped, easing ? `Easing back from pain (${label}): ${pct}% of the load` : `Pain (${label}): capped at ${pct}% of the load`);
+}
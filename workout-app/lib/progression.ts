@@ -0,0 +1,474 @@
+import type {
+  Exercise, ExerciseScheme, LiftKey, PrescriptionTrace, ProgressionStrategyId, Session, SetLog, Setup, Units,
+} from './types';
+import { clamp, median } from './util';
+import { formatWeight, minLoadStepLb, roundLoad, toLb } from './units';
+
+// 1RM estimates, the progression strategies and per-exercise prescriptions.
+
+// Estimate 1RM from 5RM (Epley-ish). This is a practical approximation.
+export function estimate1RMFrom5RM(fiveRM: number) {
+  // Epley: 1RM = w * (1 + reps/30) => reps=5 => w*1.1667
+  return fiveRM * (1 + 5 / 30);
+}
+
+// Epley for any rep count; a single is taken at face value
+export function estimate1RM(weightLb: number, reps: number) {
+  if (reps <= 0) return 0;
+  if (reps === 1) return weightLb;
+  return weightLb * (1 + reps / 30);
+}
+
+// Inverse of estimate1RM: the load that should allow `reps` reps
+export function loadForReps(oneRM: number, reps: number) {
+  if (reps <= 1) return oneRM;
+  return oneRM / (1 + reps / 30);
+}
+
+// "8-10" => { min: 8, max: 10 }, "5" => { min: 5, max: 5 }
+export function parseRepRange(reps: string) {
+  const nums = (reps.match(/\d+/g) ?? []).map(Number);
+  if (nums.length === 0) return { min: 0, max: 0 };
+  return { min: Math.min(...nums), max: Math.max(...nums) };
+}
+
+// Training max to keep progression sustainable
+export function trainingMax(oneRM: number) {
+  return oneRM * 0.9;
+}
+
+function findLastLiftPerformance(history: Session[], catalogId: string) {
+  for (const s of history) {
+    for (const ex of s.workout) {
+      if (ex.catalogId === catalogId && ex.targetWeightLb && !ex.painCap) {
+        // get associated log if present
+        const log = s.logs.find(l => l.exerciseId === ex.id);
+        return { session: s, exercise: ex, log };
+      }
+    }
+  }
+  return null;
+}
+
+// Reps left in the tank. Unrated sets are assumed to have been taken to the prescribed effort.
+export function repsInReserve(st: SetLog, assumedRIR: number) {
+  if (st.rir !== undefined) return st.rir;
+  if (st.rpe !== undefined) return Math.max(0, 10 - st.rpe);
+  return assumedRIR;
+}
+
+// Target effort per goal, in reps in reserve on working sets
+function goalRIR(goal: Setup['goal']) {
+  return goal === 'Health' ? 3 : 2;
+}
+
+// What was actually lifted for a planned exercise, or null if nothing usable was logged
+export function summarizeLoggedSets(session: Session, exercise: Exercise, assumedRIR: number) {
+  const log = session.logs.find(l => l.exerciseId === exercise.id);
+  const sets = (log?.sets ?? []).filter(st => st.type !== 'warmup' && st.weightLb && st.reps !== undefined);
+  if (sets.length === 0) return null;
+
+  const e1RM = Math.max(...sets.map(st => estimate1RM(st.weightLb!, st.reps! + repsInReserve(st, assumedRIR))));
+  if (e1RM <= 0) return null;
+
+  const range = parseRepRange(exercise.reps);
+  const working = sets.filter(st => st.type === 'working' || st.type === 'failure');
+  return {
+    e1RM,
+    topWeightLb: Math.max(...sets.map(st => st.weightLb!)),
+    hitTopOfRange: working.length > 0 && working.every(st => st.reps! >= range.max),
+    missedReps: working.some(st => st.reps! < range.min),
+  };
+}
+
+// The last `count` sessions with usable logs of an exercise, most recent first
+function findLoggedLifts(history: Session[], catalogId: string, assumedRIR: number, count: number) {
+  const out: { session: Session; exercise: Exercise; logged: NonNullable<ReturnType<typeof summarizeLoggedSets>> }[] = [];
+  for (const s of history) {
+    for (const ex of s.workout) {
+      if (ex.catalogId !== catalogId || ex.painCap) continue;
+      const logged = summarizeLoggedSets(s, ex, assumedRIR);
+      if (logged) {
+        out.push({ session: s, exercise: ex, logged });
+        break;
+      }
+    }
+    if (out.length === count) break;
+  }
+  return out;
+}
+
+type ProgressionContext = {
+  setup: Setup;
+  history: Session[];
+  lift: LiftKey;
+  planned: Exercise; // template sets/reps before progression
+};
+
+// The trace minus what prescribeExercise fills in itself
+type Trace = Omit<PrescriptionTrace, 'strategy' | 'adjustments'>;
+
+type Prescription = {
+  targetWeightLb: number;
+  sets: number;
+  reps: string;
+  note: string;
+  scheme: ExerciseScheme;
+  trace: Trace;
+};
+
+type ProgressionStrategy = {
+  id: ProgressionStrategyId;
+  label: string;
+  description: string;
+  prescribe: (ctx: ProgressionContext) => Prescription;
+};
+
+// Lower-body lifts move faster than presses and rows
+export function liftIncrementLb(lift: LiftKey, units: Units) {
+  const lower = lift === 'squat' || lift === 'deadlift';
+  return units === 'kg' ? toLb(lower ? 5 : 2.5, 'kg') : lower ? 10 : 5;
+}
+
+// The 5RM as a 1RM estimate and training max, as the start of a trace
+function fromFiveRM(setup: Setup, lift: LiftKey) {
+  const oneRepMaxLb = estimate1RMFrom5RM(setup.fiveRM[lift] || 0);
+  const retested = setup.baselineLog?.find(b => b.lift === lift)?.sessionId !== undefined;
+  return {
+    oneRepMaxLb,
+    oneRepMaxSource: `${retested ? 'retested ' : ''}5RM of ${formatWeight(setup.fiveRM[lift] || 0, setup.units)}`,
+    trainingMaxLb: trainingMax(oneRepMaxLb),
+  };
+}
+
+// Goal-based starting load from the 5RM, for when there is nothing to progress from
+function baseline(setup: Setup, lift: LiftKey) {
+  // Hypertrophy: 65–75% TM; Strength: 75–85% TM; Health: 60–70% TM
+  const goalPercent =
+    setup.goal === 'Strength' ? 0.8 :
+    setup.goal === 'Health' ? 0.65 :
+    0.7;
+  const start = fromFiveRM(setup, lift);
+  return {
+    weightLb: start.trainingMaxLb * goalPercent,
+    trace: { ...start, goalPercent },
+    rule: `${Math.round(goalPercent * 100)}% of the training max for ${setup.goal.toLowerCase()}`,
+  };
+}
+
+function previousOf(p: { session: Session; exercise: Exercise }): Trace['previous'] {
+  return { sessionId: p.session.id, dateISO: p.session.dateISO, targetWeightLb: p.exercise.targetWeightLb };
+}
+
+function clampTrace(unclampedLb: number, minLb: number, maxLb: number) {
+  return { minLb, maxLb, unclampedLb, applied: unclampedLb < minLb || unclampedLb > maxLb };
+}
+
+// Past prescriptions of an exercise by one strategy, most recent first. Logged sessions no strategy
+// prescribed (imports, history from before strategies) count for any of them.
+function liftHistory(history: Session[], catalogId: string, strategy: ProgressionStrategyId) {
+  const out: { session: Session; exercise: Exercise }[] = [];
+  for (const s of history) {
+    const ex = s.workout.find(e =>
+      e.catalogId === catalogId && e.targetWeightLb && !e.painCap &&
+      (e.scheme ? e.scheme.strategy === strategy : workingSets(s, e).length > 0));
+    if (ex) out.push({ session: s, exercise: ex });
+  }
+  return out;
+}
+
+function workingSets(session: Session, exercise: Exercise) {
+  const log = session.logs.find(l => l.exerciseId === exercise.id);
+  return (log?.sets ?? []).filter(st => (st.type === 'working' || st.type === 'failure') && st.reps !== undefined);
+}
+
+// Every planned set done for at least `minReps`. An unlogged session counts only if it was rated easy.
+function completedPrescription(session: Session, exercise: Exercise, minReps: number) {
+  const sets = workingSets(session, exercise);
+  if (sets.length === 0) return session.difficulty <= 2;
+  return sets.length >= exercise.sets && sets.every(st => st.reps! >= minReps);
+}
+
+// Pre-strategy heuristic: last prescription bumped by that session's difficulty/energy ratings,
+// bounded by the training max
+function heuristicWeight(setup: Setup, history: Session[], lift: LiftKey, catalogId: string): { weightLb: number; trace: Trace } {
+  const start = baseline(setup, lift);
+  let target = start.weightLb;
+  let rule = start.rule;
+  let previous: Trace['previous'];
+
+  const last = findLastLiftPerformance(history, catalogId);
+  if (last?.exercise?.targetWeightLb) {
+    const lastW = last.exercise.targetWeightLb;
+
+    // If last session was easy + good energy => add 2.5–5 lb
+    const lastDifficulty = last.session.difficulty;
+    const lastEnergy = last.session.energy;
+    const rated = `difficulty ${lastDifficulty}/5, energy ${lastEnergy}/5`;
+
+    let bump = 0;
+    if (lastDifficulty <= 2 && lastEnergy >= 4) bump = 5;
+    else if (lastDifficulty === 3) bump = 2.5;
+    else if (lastDifficulty >= 4 || lastEnergy <= 2) bump = -5;
+
+    target = lastW + bump;
+    previous = previousOf(last);
+    const fmt = (lb: number) => formatWeight(lb, setup.units);
+    rule = bump === 0
+      ? `Last session rated ${rated}: repeat ${fmt(lastW)}`
+      : `Last session rated ${rated}: ${bump > 0 ? '+' : '−'}${fmt(Math.abs(bump))} on ${fmt(lastW)}`;
+  }
+
+  // sane bounds
+  const tMax = start.trace.trainingMaxLb;
+  return {
+    weightLb: clamp(target, tMax * 0.55, tMax * 0.9),
+    trace: { ...start.trace, previous, rule, clamp: clampTrace(target, tMax * 0.55, tMax * 0.9) },
+  };
+}
+
+const rpeStrategy: ProgressionStrategy = {
+  id: 'rpe',
+  label: 'RPE autoregulation',
+  description: 'Load comes from the estimated 1RM of your logged sets, aimed at a target RPE.',
+  prescribe: ({ setup, history, lift, planned }) => {
+    const rir = goalRIR(setup.goal);
+    const base = { sets: planned.sets, reps: planned.reps, note: `Working sets at RPE ${10 - rir}`, scheme: { strategy: 'rpe' as const } };
+
+    // Logged sets beat the prescription: aim the middle of today's range at the goal effort
+    const recent = findLoggedLifts(history, planned.catalogId, rir, 3);
+    const lastLogged = recent[0];
+    if (!lastLogged) {
+      const heuristic = heuristicWeight(setup, history, lift, planned.catalogId);
+      return { ...base, targetWeightLb: roundLoad(setup, heuristic.weightLb), trace: heuristic.trace };
+    }
+
+    const range = parseRepRange(planned.reps);
+    const { topWeightLb, hitTopOfRange, missedReps } = lastLogged.logged;
+    // a single session's RPE is noisy: the median of the last three keeps one misjudged set from swinging the load
+    const e1RM = median(recent.map(r => r.logged.e1RM));
+    const reps = (range.min + range.max) / 2;
+    let target = loadForReps(e1RM, reps + rir);
+    let rule = `Load for ${reps} reps with ${rir} in reserve`;
+    // every working set at the top of the range earns a load increase; missed reps never do
+    if (hitTopOfRange && target < topWeightLb + minLoadStepLb(setup)) {
+      target = topWeightLb + minLoadStepLb(setup);
+      rule = `Every working set reached ${range.max} reps: one load step over ${formatWeight(topWeightLb, setup.units)}`;
+    }
+    if (missedReps && target > topWeightLb) {
+      target = topWeightLb;
+      rule = `Reps fell short of ${range.min}: no more than last time's ${formatWeight(topWeightLb, setup.units)}`;
+    }
+    // one bad (or great) day shouldn't swing the load more than 10%
+    return {
+      ...base,
+      targetWeightLb: roundLoad(setup, clamp(target, topWeightLb * 0.9, topWeightLb * 1.1)),
+      trace: {
+        oneRepMaxLb: e1RM,
+        oneRepMaxSource: recent.length > 1 ? `median of the best logged sets over the last ${recent.length} sessions` : 'best logged set last time',
+        previous: previousOf(lastLogged),
+        rule,
+        clamp: clampTrace(target, topWeightLb * 0.9, topWeightLb * 1.1),
+      },
+    };
+  },
+};
+
+const linearStrategy: ProgressionStrategy = {
+  id: 'linear',
+  label: 'Linear',
+  description: 'Fixed reps; add weight every session all sets are completed. Three misses in a row deload 10%.',
+  prescribe: ({ setup, history, lift, planned }) => {
+    const reps = parseRepRange(planned.reps).min || 5;
+    const inc = liftIncrementLb(lift, setup.units);
+    const fmt = (lb: number) => formatWeight(lb, setup.units);
+    const base = { sets: planned.sets, reps: String(reps), scheme: { strategy: 'linear' as const } };
+
+    const past = liftHistory(history, planned.catalogId, 'linear');
+    if (past.length === 0) {
+      const start = baseline(setup, lift);
+      return {
+        ...base,
+        targetWeightLb: roundLoad(setup, start.weightLb),
+        note: `Add ${fmt(inc)} each time every set is completed`,
+        trace: { ...start.trace, rule: `First session: ${start.rule}` },
+      };
+    }
+
+    const lastW = past[0].exercise.targetWeightLb!;
+    const previous = previousOf(past[0]);
+    if (completedPrescription(past[0].session, past[0].exercise, reps)) {
+      const note = `+${fmt(inc)}: all sets completed last time`;
+      return { ...base, targetWeightLb: roundLoad(setup, lastW + inc), note, trace: { previous, rule: note } };
+    }
+
+    let misses = 0;
+    for (const p of past) {
+      if (p.exercise.targetWeightLb !== lastW || completedPrescription(p.session, p.exercise, reps)) break;
+      misses++;
+    }
+    if (misses >= 3) {
+      const note = `Deload 10% after ${misses} missed sessions at ${fmt(lastW)}`;
+      return { ...base, targetWeightLb: roundLoad(setup, lastW * 0.9), note, trace: { previous, rule: note } };
+    }
+    const note = `Repeat ${fmt(lastW)} (miss ${misses} of 3 before a deload)`;
+    return { ...base, targetWeightLb: lastW, note, trace: { previous, rule: note } };
+  },
+};
+
+const doubleStrategy: ProgressionStrategy = {
+  id: 'double',
+  label: 'Double progression',
+  description: 'Keep the weight and add reps until every set reaches the top of the range, then add weight.',
+  prescribe: ({ setup, history, lift, planned }) => {
+    const range = parseRepRange(planned.reps);
+    const inc = liftIncrementLb(lift, setup.units);
+    const fmt = (lb: number) => formatWeight(lb, setup.units);
+    const base = { sets: planned.sets, reps: planned.reps, scheme: { strategy: 'double' as const } };
+
+    const past = liftHistory(history, planned.catalogId, 'double');
+    if (past.length === 0) {
+      const start = baseline(setup, lift);
+      return {
+        ...base,
+        targetWeightLb: roundLoad(setup, start.weightLb),
+        note: `Build every set to ${range.max} reps, then add weight`,
+        trace: { ...start.trace, rule: `First session: ${start.rule}` },
+      };
+    }
+
+    const lastW = past[0].exercise.targetWeightLb!;
+    const previous = previousOf(past[0]);
+    if (completedPrescription(past[0].session, past[0].exercise, range.max)) {
+      const note = `+${fmt(inc)}: every set hit ${range.max}. Restart at ${range.min} reps`;
+      return { ...base, targetWeightLb: roundLoad(setup, lastW + inc), note, trace: { previous, rule: note } };
+    }
+    // missing the bottom of the range twice running means the jump was too big
+    const belowRange = (p: { session: Session; exercise: Exercise }) =>
+      workingSets(p.session, p.exercise).some(st => st.reps! < range.min);
+    if (past.length >= 2 && belowRange(past[0]) && belowRange(past[1]) && past[1].exercise.targetWeightLb === lastW) {
+      const note = `-${fmt(inc)}: below ${range.min} reps twice`;
+      return { ...base, targetWeightLb: roundLoad(setup, lastW - inc), note, trace: { previous, rule: note } };
+    }
+    const note = `Stay at ${fmt(lastW)} and add reps toward ${range.max}`;
+    return { ...base, targetWeightLb: lastW, note, trace: { previous, rule: note } };
+  },
+};
+
+// Week => per-set % of training max and reps; the last set of weeks 1-3 is AMRAP
+const WAVE_531: Record<number, { pct: number; reps: number }[]> = {
+  1: [{ pct: 0.65, reps: 5 }, { pct: 0.75, reps: 5 }, { pct: 0.85, reps: 5 }],
+  2: [{ pct: 0.7, reps: 3 }, { pct: 0.8, reps: 3 }, { pct: 0.9, reps: 3 }],
+  3: [{ pct: 0.75, reps: 5 }, { pct: 0.85, reps: 3 }, { pct: 0.95, reps: 1 }],
+  4: [{ pct: 0.4, reps: 5 }, { pct: 0.5, reps: 5 }, { pct: 0.6, reps: 5 }],
+};
+
+const waveStrategy: ProgressionStrategy = {
+  id: 'wave531',
+  label: '5/3/1 wave',
+  description: 'Four-week wave off a training max (5s, 3s, 5/3/1, deload). The training max rises each cycle.',
+  prescribe: ({ setup, history, lift, planned }) => {
+    // the wave continues from its own week and training max, which other sessions don't carry
+    const past = liftHistory(history, planned.catalogId, 'wave531').filter(p => p.exercise.scheme);
+    const last = past[0]?.exercise.scheme;
+
+    let week = 1;
+    const start = fromFiveRM(setup, lift);
+    let tMax = start.trainingMaxLb;
+    let tmNote = '';
+    if (last?.week && last.trainingMaxLb) {
+      week = (last.week % 4) + 1;
+      tMax = last.trainingMaxLb;
+      if (week === 1) {
+        // new cycle: bump the TM when every AMRAP of the last cycle made its reps. One short AMRAP holds it;
+        // two, or a missed single, reset it 10%
+        const cycleStart = past.findIndex(p => p.exercise.scheme?.week === 1);
+        const short = past.slice(0, cycleStart + 1).filter(({ session, exercise }) => {
+          const week = exercise.scheme?.week;
+          if (!week || week === 4) return false;
+          const wave = WAVE_531[week];
+          const sets = workingSets(session, exercise);
+          return sets.length === wave.length && sets[sets.length - 1].reps! < wave[wave.length - 1].reps;
+        });
+        const inc = liftIncrementLb(lift, setup.units);
+        if (short.length >= 2 || short.some(p => p.exercise.scheme?.week === 3)) {
+          tMax *= 0.9;
+          tmNote = ' · TM reset 10%';
+        } else if (short.length === 1) {
+          tmNote = ` · TM held: week ${short[0].exercise.scheme?.week} AMRAP fell short`;
+        } else {
+          tMax += inc;
+          tmNote = ` · TM +${formatWeight(inc, setup.units)}`;
+        }
+      }
+    }
+
+    const scheme = WAVE_531[week];
+    const top = scheme[scheme.length - 1];
+    const amrap = week !== 4;
+    const ladder = scheme
+      .map((st, i) => `${formatWeight(roundLoad(setup, tMax * st.pct), setup.units)}×${st.reps}${amrap && i === scheme.length - 1 ? '+' : ''}`)
+      .join(', ');
+
+    return {
+      targetWeightLb: roundLoad(setup, tMax * top.pct),
+      sets: scheme.length,
+      reps: scheme.map(st => st.reps).join('/') + (amrap ? '+' : ''),
+      note: `Week ${week}${week === 4 ? ' (deload)' : ''}: ${ladder}${tmNote}`,
+      scheme: { strategy: 'wave531', week, trainingMaxLb: Math.round(tMax * 10) / 10 },
+      trace: {
+        // the 1RM estimate only matters until the first cycle sets a training max
+        ...(past.length ? {} : { oneRepMaxLb: start.oneRepMaxLb, oneRepMaxSource: start.oneRepMaxSource }),
+        trainingMaxLb: tMax,
+        goalPercent: top.pct,
+        previous: past[0] ? previousOf(past[0]) : undefined,
+        rule: `Week ${week} of the wave: top set at ${Math.round(top.pct * 100)}% of the training max${tmNote}`,
+      },
+    };
+  },
+};
+
+// The load of each working set: a 5/3/1 week climbs to its top set, everything else works at the target
+export function workingSetLoads(setup: Setup, ex: Exercise): (number | undefined)[] {
+  const { week, trainingMaxLb } = ex.scheme ?? {};
+  const wave = week && WAVE_531[week];
+  if (ex.scheme?.strategy !== 'wave531' || !wave || !trainingMaxLb || wave.length !== ex.sets) {
+    return Array.from({ length: ex.sets }, () => ex.targetWeightLb);
+  }
+  return wave.map(st => roundLoad(setup, trainingMaxLb * st.pct));
+}
+
+export const PROGRESSION_STRATEGIES: Record<ProgressionStrategyId, ProgressionStrategy> = {
+  rpe: rpeStrategy,
+  linear: linearStrategy,
+  double: doubleStrategy,
+  wave531: waveStrategy,
+};
+
+export const DEFAULT_PROGRESSION: Record<LiftKey, ProgressionStrategyId> = {
+  bench: 'rpe', squat: 'rpe', deadlift: 'rpe', ohp: 'rpe', row: 'rpe',
+};
+
+// The sessions progression learns from, before `dateISO` when given. Deloads say nothing about what the
+// lifter can do, and retests feed the baselines instead.
+export function progressionHistory(history: Session[], dateISO?: string) {
+  return history.filter(h => (dateISO === undefined || h.dateISO < dateISO) && !h.deload && !h.retest);
+}
+
+// Run a primary lift through the lifter's chosen strategy; accessories pass through unchanged
+export function prescribeExercise(setup: Setup, history: Session[], ex: Exercise): Exercise {
+  if (ex.primary === 'accessory') return ex;
+  const strategy = PROGRESSION_STRATEGIES[setup.progression[ex.primary]];
+  // a recalculated baseline restarts the lift: sessions before it no longer set the load
+  const reset = setup.baselineLog?.find(b => b.lift === ex.primary && b.recalculate);
+  const since = reset ? history.filter(s => s.dateISO > reset.dateISO) : history;
+  const p = strategy.prescribe({ setup, history: since, lift: ex.primary, planned: ex });
+  const trace: PrescriptionTrace = { strategy: strategy.id, ...p.trace };
+  return { ...ex, sets: p.sets, reps: p.reps, targetWeightLb: p.targetWeightLb, notes: p.note, scheme: p.scheme, trace };
+}
+
+// Note a change made after progression (deload, block week, edit) on the exercise's trace
+export function withAdjustment(ex: Exercise, adjustment: string): Exercise {
+  if (!ex.trace) return ex;
+  return { ...ex, trace: { ...ex.trace, adjustments: [...(ex.trace.adjustments ?? []), adjustment] } };
+}
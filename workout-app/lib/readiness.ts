@@ -0,0 +1,133 @@
+import type { Exercise, Readiness, ReadinessFactor, Session, Setup } from './types';
+import { average, chronological, clamp, DAY_MS, round1 } from './util';
+import { roundLoad } from './units';
+import { parseRepRange, withAdjustment } from './progression';
+
+// Readiness from sleep, energy, RPE drift and missed reps, and the deload it can trigger.
+
+const READINESS_RECENT = 3; // sessions in the "how are things now" window
+const READINESS_BASELINE = 10; // sessions before that, to compare against
+
+// RPE of every rated working set; RIR is read as 10 - RIR
+function ratedRPEs(s: Session) {
+  return s.logs
+    .flatMap(l => l.sets)
+    .filter(st => st.type !== 'warmup' && (st.rpe !== undefined || st.rir !== undefined))
+    .map(st => st.rpe ?? 10 - st.rir!);
+}
+
+// Working sets that fell short of the bottom of their prescribed range
+function missedReps(s: Session) {
+  let missed = 0;
+  let total = 0;
+  for (const ex of s.workout) {
+    const { min } = parseRepRange(ex.reps);
+    for (const st of s.logs.find(l => l.exerciseId === ex.id)?.sets ?? []) {
+      if (st.type !== 'working' || st.reps === undefined) continue;
+      total++;
+      if (st.reps < min) missed++;
+    }
+  }
+  return { missed, total };
+}
+
+// Rolling trends in sleep, energy, difficulty, RPE drift and missed reps. History is newest first.
+function readinessFactors(history: Session[]): ReadinessFactor[] {
+  const recent = history.slice(0, READINESS_RECENT);
+  const baseline = history.slice(READINESS_RECENT, READINESS_RECENT + READINESS_BASELINE);
+  const factors: ReadinessFactor[] = [];
+
+  const sleep = average(recent.flatMap(s => (s.sleepHours === undefined ? [] : [s.sleepHours])));
+  const sleepBase = average(baseline.flatMap(s => (s.sleepHours === undefined ? [] : [s.sleepHours])));
+  if (sleep !== undefined) {
+    const short = Math.max(0, 7 - sleep) * 6;
+    const drop = sleepBase !== undefined ? Math.max(0, sleepBase - sleep) * 6 : 0;
+    factors.push({
+      label: 'Sleep',
+      detail: `${round1(sleep)} h avg${sleepBase !== undefined ? ` vs ${round1(sleepBase)} h before` : ''}`,
+      penalty: Math.round(clamp(short + drop, 0, 20)),
+    });
+  }
+
+  const energy = average(recent.map(s => s.energy));
+  const energyBase = average(baseline.map(s => s.energy));
+  if (energy !== undefined) {
+    const low = Math.max(0, 3.5 - energy) * 8;
+    const drop = energyBase !== undefined ? Math.max(0, energyBase - energy) * 8 : 0;
+    factors.push({
+      label: 'Energy',
+      detail: `${round1(energy)}/5 avg${energyBase !== undefined ? ` vs ${round1(energyBase)} before` : ''}`,
+      penalty: Math.round(clamp(low + drop, 0, 20)),
+    });
+  }
+
+  const difficulty = average(recent.map(s => s.difficulty));
+  if (difficulty !== undefined) {
+    factors.push({ label: 'Difficulty', detail: `${round1(difficulty)}/5 avg`, penalty: Math.round(clamp((difficulty - 3) * 10, 0, 20)) });
+  }
+
+  const rpe = average(recent.flatMap(ratedRPEs));
+  const rpeBase = average(baseline.flatMap(ratedRPEs));
+  if (rpe !== undefined && rpeBase !== undefined) {
+    const drift = rpe - rpeBase;
+    factors.push({
+      label: 'RPE drift',
+      detail: `${drift >= 0 ? '+' : ''}${round1(drift)} (${round1(rpe)} vs ${round1(rpeBase)})`,
+      penalty: Math.round(clamp(drift * 10, 0, 20)),
+    });
+  }
+
+  const reps = recent.map(missedReps).reduce((a, b) => ({ missed: a.missed + b.missed, total: a.total + b.total }), { missed: 0, total: 0 });
+  if (reps.total > 0) {
+    const rate = reps.missed / reps.total;
+    factors.push({ label: 'Missed reps', detail: `${reps.missed} of ${reps.total} working sets`, penalty: Math.round(clamp(rate * 50, 0, 20)) });
+  }
+
+  return factors;
+}
+
+function readinessScore(factors: ReadinessFactor[]) {
+  return clamp(100 - factors.reduce((sum, f) => sum + f.penalty, 0), 0, 100);
+}
+
+// Deload when readiness is low or falling fast, or when a long block ends tired.
+// A deload lasts a week from its first session and never comes sooner than three weeks after the last one.
+// Only sessions up to `nowISO` count, so back-dated planning ignores anything logged after that moment.
+export function computeReadiness(history: Session[], nowISO: string): Readiness {
+  const sorted = chronological(history.filter(s => s.dateISO <= nowISO)).reverse();
+  const factors = readinessFactors(sorted);
+  const score = readinessScore(factors);
+  const now = Date.parse(nowISO);
+
+  let i = 0;
+  while (i < sorted.length && !sorted[i].deload) i++;
+  if (i < sorted.length) {
+    let start = i;
+    while (start + 1 < sorted.length && sorted[start + 1].deload) start++;
+    const daysIn = (now - Date.parse(sorted[start].dateISO)) / DAY_MS;
+    if (daysIn < 7) return { score, factors, deload: true, deloadReason: `Deload week in progress (day ${Math.floor(daysIn) + 1} of 7)` };
+  }
+
+  const blockStart = i < sorted.length ? sorted[i].dateISO : sorted[sorted.length - 1]?.dateISO;
+  const weeks = blockStart ? (now - Date.parse(blockStart)) / (7 * DAY_MS) : 0;
+  if (weeks < 3) return { score, factors, deload: false };
+
+  const previous = readinessScore(readinessFactors(sorted.slice(1)));
+  if (score < 55) return { score, factors, deload: true, deloadReason: `Readiness ${score} is below 55` };
+  if (score < 70 && previous - score >= 10) {
+    return { score, factors, deload: true, deloadReason: `Readiness fell from ${previous} to ${score}` };
+  }
+  if (weeks >= 8 && score < 80) {
+    return { score, factors, deload: true, deloadReason: `${Math.floor(weeks)} weeks since the last deload and readiness is ${score}` };
+  }
+  return { score, factors, deload: false };
+}
+
+// Roughly 60% of the sets at 85% of the load. 5/3/1 week 4 is already a deload.
+export function applyDeload(setup: Setup, ex: Exercise): Exercise {
+  const sets = Math.max(1, Math.round(ex.sets * 0.6));
+  if (!ex.targetWeightLb || ex.scheme?.week === 4) return withAdjustment({ ...ex, sets }, `Deload: ${ex.sets} → ${sets} sets`);
+  const targetWeightLb = roundLoad(setup, ex.targetWeightLb * 0.85);
+  const deloaded = { ...ex, sets, targetWeightLb, notes: `Deload: ${sets} sets at 85%${ex.notes ? ` · ${ex.notes}` : ''}` };
+  return withAdjustment(deloaded, `Deload: ${ex.sets} → ${sets} sets at 85% of the load`);
+}
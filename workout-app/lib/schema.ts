@@ -0,0 +1,220 @@
+import type { Equipment, LiftKey, PainSeverity, ProgressionStrategyId, SetType, Setup, StoredState } from './types';
+
+// Bump together with a new step in MIGRATIONS (lib/storage.ts)
+export const SCHEMA_VERSION = 6;
+
+export const GOALS: Setup['goal'][] = ['Hypertrophy', 'Strength', 'Health'];
+export const LIFT_KEYS: LiftKey[] = ['bench', 'squat', 'deadlift', 'ohp', 'row'];
+export const ALL_EQUIPMENT: Equipment[] = ['barbell', 'rack', 'bench', 'dumbbell', 'cable', 'machine', 'pullup-bar', 'dip-station', 'bands', 'bodyweight'];
+export const SET_TYPES: SetType[] = ['warmup', 'working', 'failure', 'drop'];
+export const PROGRESSION_IDS: ProgressionStrategyId[] = ['rpe', 'linear', 'double', 'wave531'];
+export const PAIN_SEVERITIES: PainSeverity[] = ['mild', 'moderate', 'severe'];
+
+export function isRecord(x: unknown): x is Record<string, unknown> {
+  return typeof x === 'object' && x !== null && !Array.isArray(x);
+}
+
+export function isNum(x: unknown): x is number {
+  return typeof x === 'number' && Number.isFinite(x);
+}
+
+export function isOptNum(x: unknown) {
+  return x === undefined || isNum(x);
+}
+
+export function isStringArray(x: unknown) {
+  return Array.isArray(x) && x.every(v => typeof v === 'string');
+}
+
+export function validateSetup(x: unknown, errors: string[]) {
+  if (x === null) return;
+  if (!isRecord(x)) { errors.push('setup is not an object'); return; }
+  if (x.name !== undefined && typeof x.name !== 'string') errors.push('setup.name is not a string');
+  if (typeof x.gender !== 'string') errors.push('setup.gender is not a string');
+  if (!isNum(x.heightIn)) errors.push('setup.heightIn is not a number');
+  if (!isNum(x.weightLb)) errors.push('setup.weightLb is not a number');
+  if (!GOALS.includes(x.goal as Setup['goal'])) errors.push(`setup.goal "${String(x.goal)}" is unknown`);
+  if (!isRecord(x.fiveRM)) { errors.push('setup.fiveRM is not an object'); return; }
+  for (const k of LIFT_KEYS) {
+    if (!isNum(x.fiveRM[k])) errors.push(`setup.fiveRM.${k} is not a number`);
+  }
+  validateSplit(x.split, errors);
+  if (!Array.isArray(x.equipment) || !x.equipment.every(e => ALL_EQUIPMENT.includes(e))) errors.push('setup.equipment is not a list of known equipment');
+  if (x.units !== 'lb' && x.units !== 'kg') errors.push(`setup.units "${String(x.units)}" is unknown`);
+  if (!isRecord(x.plates)) errors.push('setup.plates is not an object');
+  else {
+    if (x.plates.unit !== 'lb' && x.plates.unit !== 'kg') errors.push(`setup.plates.unit "${String(x.plates.unit)}" is unknown`);
+    if (!isNum(x.plates.barWeight)) errors.push('setup.plates.barWeight is not a number');
+    if (!Array.isArray(x.plates.plates) || !x.plates.plates.every((p: unknown) => isRecord(p) && isNum(p.weight) && isNum(p.pairs))) {
+      errors.push('setup.plates.plates is not a list of { weight, pairs }');
+    }
+  }
+  if (x.plan !== undefined) validatePlan(x.plan, errors);
+  if (!isOptNum(x.sessionMinutes)) errors.push('setup.sessionMinutes is not a number');
+  if (x.painFlags !== undefined) {
+    if (!Array.isArray(x.painFlags)) errors.push('setup.painFlags is not a list');
+    else x.painFlags.forEach((f: unknown, i) => validatePainFlag(f, `setup.painFlags[${i}]`, errors));
+  }
+  if (!isOptNum(x.retestEveryWeeks)) errors.push('setup.retestEveryWeeks is not a number');
+  if (x.baselineLog !== undefined) {
+    if (!Array.isArray(x.baselineLog)) errors.push('setup.baselineLog is not a list');
+    else x.baselineLog.forEach((b: unknown, i) => validateBaselineChange(b, `setup.baselineLog[${i}]`, errors));
+  }
+  if (x.bodyweightLog !== undefined && !(Array.isArray(x.bodyweightLog) && x.bodyweightLog.every((e: unknown) =>
+    isRecord(e) && typeof e.dateISO === 'string' && !Number.isNaN(Date.parse(e.dateISO)) && isNum(e.weightLb)))) {
+    errors.push('setup.bodyweightLog is not a list of { dateISO, weightLb }');
+  }
+  if (x.warmup !== undefined) {
+    const w = x.warmup;
+    if (!isRecord(w) || typeof w.enabled !== 'boolean' || !isNum(w.barReps)) errors.push('setup.warmup is not a warm-up scheme');
+    else if (!Array.isArray(w.steps) || !w.steps.every((st: unknown) => isRecord(st) && isNum(st.percent) && isNum(st.reps))) {
+      errors.push('setup.warmup.steps is not a list of { percent, reps }');
+    }
+  }
+  if (!isRecord(x.progression)) { errors.push('setup.progression is not an object'); return; }
+  for (const k of LIFT_KEYS) {
+    if (!PROGRESSION_IDS.includes(x.progression[k] as ProgressionStrategyId)) errors.push(`setup.progression.${k} "${String(x.progression[k])}" is unknown`);
+  }
+}
+
+function validatePainFlag(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.id !== 'string') errors.push(`${path}.id is not a string`);
+  if (typeof x.area !== 'string' && typeof x.catalogId !== 'string') errors.push(`${path} has neither an area nor an exercise`);
+  if (x.side !== undefined && x.side !== 'left' && x.side !== 'right') errors.push(`${path}.side "${String(x.side)}" is unknown`);
+  if (!PAIN_SEVERITIES.includes(x.severity as PainSeverity)) errors.push(`${path}.severity "${String(x.severity)}" is unknown`);
+  for (const f of ['startISO', 'untilISO']) {
+    if (typeof x[f] !== 'string' || Number.isNaN(Date.parse(x[f] as string))) errors.push(`${path}.${f} is not a date`);
+  }
+}
+
+function validateBaselineChange(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.id !== 'string') errors.push(`${path}.id is not a string`);
+  if (typeof x.dateISO !== 'string' || Number.isNaN(Date.parse(x.dateISO))) errors.push(`${path}.dateISO is not a date`);
+  if (!LIFT_KEYS.includes(x.lift as LiftKey)) errors.push(`${path}.lift "${String(x.lift)}" is unknown`);
+  if (!isOptNum(x.fromLb) || !isNum(x.toLb)) errors.push(`${path} needs a numeric toLb and optional fromLb`);
+  if (typeof x.reason !== 'string') errors.push(`${path}.reason is not a string`);
+  if (x.sessionId !== undefined && typeof x.sessionId !== 'string') errors.push(`${path}.sessionId is not a string`);
+  if (x.recalculate !== undefined && typeof x.recalculate !== 'boolean') errors.push(`${path}.recalculate is not a boolean`);
+}
+
+function validatePlan(x: unknown, errors: string[]) {
+  if (!isRecord(x)) { errors.push('setup.plan is not an object'); return; }
+  if (typeof x.id !== 'string') errors.push('setup.plan.id is not a string');
+  if (typeof x.startISO !== 'string' || Number.isNaN(Date.parse(x.startISO))) errors.push('setup.plan.startISO is not a date');
+  if (!isNum(x.weeks)) errors.push('setup.plan.weeks is not a number');
+  if (!Array.isArray(x.trainingDays) || !x.trainingDays.every(d => isNum(d) && d >= 0 && d <= 6)) errors.push('setup.plan.trainingDays is not a list of weekdays');
+  if (!Array.isArray(x.sessions)) { errors.push('setup.plan.sessions is not a list'); return; }
+  x.sessions.forEach((p: unknown, i) => {
+    const path = `setup.plan.sessions[${i}]`;
+    if (!isRecord(p)) { errors.push(`${path} is not an object`); return; }
+    if (typeof p.id !== 'string') errors.push(`${path}.id is not a string`);
+    if (typeof p.dateISO !== 'string' || Number.isNaN(Date.parse(p.dateISO))) errors.push(`${path}.dateISO is not a date`);
+    if (!isNum(p.week)) errors.push(`${path}.week is not a number`);
+    if (typeof p.dayId !== 'string') errors.push(`${path}.dayId is not a string`);
+    if (p.skipped !== undefined && typeof p.skipped !== 'boolean') errors.push(`${path}.skipped is not a boolean`);
+  });
+}
+
+function validateExerciseTemplate(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.catalogId !== 'string') errors.push(`${path}.catalogId is not a string`);
+  if (!isNum(x.sets)) errors.push(`${path}.sets is not a number`);
+  if (typeof x.reps !== 'string') errors.push(`${path}.reps is not a string`);
+}
+
+function validateExercise(x: unknown, path: string, errors: string[]) {
+  validateExerciseTemplate(x, path, errors);
+  if (!isRecord(x)) return;
+  if (typeof x.id !== 'string') errors.push(`${path}.id is not a string`);
+  if (typeof x.name !== 'string') errors.push(`${path}.name is not a string`);
+  if (x.primary !== 'accessory' && !LIFT_KEYS.includes(x.primary as LiftKey)) errors.push(`${path}.primary "${String(x.primary)}" is unknown`);
+  if (!isStringArray(x.muscleGroups)) errors.push(`${path}.muscleGroups is not a list of strings`);
+  if (!isOptNum(x.targetWeightLb)) errors.push(`${path}.targetWeightLb is not a number`);
+  if (!isOptNum(x.restSec)) errors.push(`${path}.restSec is not a number`);
+  if (!isOptNum(x.painCap)) errors.push(`${path}.painCap is not a number`);
+  if (x.warmups !== undefined && !(Array.isArray(x.warmups) && x.warmups.every((w: unknown) => isRecord(w) && isNum(w.weightLb) && isNum(w.reps)))) {
+    errors.push(`${path}.warmups is not a list of { weightLb, reps }`);
+  }
+  if (x.trace !== undefined) {
+    const t = x.trace;
+    if (!isRecord(t) || !PROGRESSION_IDS.includes(t.strategy as ProgressionStrategyId) || typeof t.rule !== 'string') {
+      errors.push(`${path}.trace needs a known strategy and a rule`);
+    } else if (t.adjustments !== undefined && !isStringArray(t.adjustments)) {
+      errors.push(`${path}.trace.adjustments is not a list of strings`);
+    }
+  }
+}
+
+function validateSplit(x: unknown, errors: string[]) {
+  if (!isRecord(x)) { errors.push('setup.split is not an object'); return; }
+  if (typeof x.name !== 'string') errors.push('setup.split.name is not a string');
+  if (!Array.isArray(x.days)) { errors.push('setup.split.days is not a list'); return; }
+  x.days.forEach((d: unknown, i) => {
+    const path = `setup.split.days[${i}]`;
+    if (!isRecord(d)) { errors.push(`${path} is not an object`); return; }
+    if (typeof d.id !== 'string') errors.push(`${path}.id is not a string`);
+    if (typeof d.name !== 'string') errors.push(`${path}.name is not a string`);
+    if (!Array.isArray(d.exercises)) errors.push(`${path}.exercises is not a list`);
+    else d.exercises.forEach((ex: unknown, j) => validateExerciseTemplate(ex, `${path}.exercises[${j}]`, errors));
+  });
+}
+
+function validateLog(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.exerciseId !== 'string') errors.push(`${path}.exerciseId is not a string`);
+  if (!Array.isArray(x.sets)) { errors.push(`${path}.sets is not a list`); return; }
+  x.sets.forEach((st: unknown, i) => {
+    if (!isRecord(st)) { errors.push(`${path}.sets[${i}] is not an object`); return; }
+    if (!SET_TYPES.includes(st.type as SetType)) errors.push(`${path}.sets[${i}].type "${String(st.type)}" is unknown`);
+    for (const f of ['weightLb', 'reps', 'rpe', 'rir']) {
+      if (!isOptNum(st[f])) errors.push(`${path}.sets[${i}].${f} is not a number`);
+    }
+  });
+}
+
+// The parts of an assigned workout a coach sends; the server adds the id, coach and time
+export function validateAssignment(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.dayName !== 'string' || !x.dayName.trim()) errors.push(`${path}.dayName is not a name`);
+  if (x.dayId !== undefined && typeof x.dayId !== 'string') errors.push(`${path}.dayId is not a string`);
+  if (x.note !== undefined && typeof x.note !== 'string') errors.push(`${path}.note is not a string`);
+  if (!Array.isArray(x.workout) || x.workout.length === 0) errors.push(`${path}.workout is not a list of exercises`);
+  else x.workout.forEach((ex: unknown, i) => validateExercise(ex, `${path}.workout[${i}]`, errors));
+}
+
+export function validateSession(x: unknown, path: string, errors: string[]) {
+  if (!isRecord(x)) { errors.push(`${path} is not an object`); return; }
+  if (typeof x.id !== 'string') errors.push(`${path}.id is not a string`);
+  if (typeof x.dateISO !== 'string' || Number.isNaN(Date.parse(x.dateISO))) errors.push(`${path}.dateISO is not a date`);
+  if (x.dayId !== undefined && typeof x.dayId !== 'string') errors.push(`${path}.dayId is not a string`);
+  if (typeof x.dayType !== 'string') errors.push(`${path}.dayType is not a string`);
+  if (!isStringArray(x.muscleGroups)) errors.push(`${path}.muscleGroups is not a list of strings`);
+  if (!isNum(x.energy)) errors.push(`${path}.energy is not a number`);
+  if (!isNum(x.difficulty)) errors.push(`${path}.difficulty is not a number`);
+  if (!isOptNum(x.sleepHours)) errors.push(`${path}.sleepHours is not a number`);
+  if (!isOptNum(x.bodyweightLb)) errors.push(`${path}.bodyweightLb is not a number`);
+  if (x.startedAtISO !== undefined && typeof x.startedAtISO !== 'string') errors.push(`${path}.startedAtISO is not a string`);
+  if (!isOptNum(x.durationSec)) errors.push(`${path}.durationSec is not a number`);
+  if (x.deload !== undefined && typeof x.deload !== 'boolean') errors.push(`${path}.deload is not a boolean`);
+  if (x.plannedId !== undefined && typeof x.plannedId !== 'string') errors.push(`${path}.plannedId is not a string`);
+  if (!isOptNum(x.timeBudgetMin)) errors.push(`${path}.timeBudgetMin is not a number`);
+  if (x.assignmentId !== undefined && typeof x.assignmentId !== 'string') errors.push(`${path}.assignmentId is not a string`);
+  if (x.retest !== undefined && typeof x.retest !== 'boolean') errors.push(`${path}.retest is not a boolean`);
+  if (x.readiness !== undefined && !(isRecord(x.readiness) && isNum(x.readiness.score) && Array.isArray(x.readiness.factors))) {
+    errors.push(`${path}.readiness is not a readiness snapshot`);
+  }
+  if (!Array.isArray(x.workout)) errors.push(`${path}.workout is not a list`);
+  else x.workout.forEach((ex: unknown, i) => validateExercise(ex, `${path}.workout[${i}]`, errors));
+  if (!Array.isArray(x.logs)) errors.push(`${path}.logs is not a list`);
+  else x.logs.forEach((l: unknown, i) => validateLog(l, `${path}.logs[${i}]`, errors));
+}
+
+export function validateState(x: StoredState): string[] {
+  const errors: string[] = [];
+  validateSetup(x.setup ?? null, errors);
+  if (!Array.isArray(x.history)) errors.push('history is not a list');
+  else x.history.forEach((sess, i) => validateSession(sess, `history[${i}]`, errors));
+  return errors;
+}
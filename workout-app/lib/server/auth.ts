@@ -0,0 +1,61 @@
+import { cookies } from 'next/headers';
+import { NextResponse } from 'next/server';
+import { findUserById, userIdForToken, type UserRecord } from './store';
+
+export const SESSION_COOKIE = 'flex_session';
+
+const SESSION_MAX_AGE_SEC = 30 * 24 * 3600;
+
+export const USERNAME_PATTERN = /^[a-z0-9_.-]{3,32}$/i;
+export const MIN_PASSWORD_LENGTH = 8;
+
+export function jsonError(status: number, error: string) {
+  return NextResponse.json({ error }, { status });
+}
+
+// The signed-in athlete for this request, or null
+export async function currentUserId() {
+  const token = (await cookies()).get(SESSION_COOKIE)?.value;
+  return token ? userIdForToken(token) : null;
+}
+
+export function withSessionCookie(res: NextResponse, token: string) {
+  res.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: SESSION_MAX_AGE_SEC,
+  });
+  return res;
+}
+
+// Handlers that need a signed-in athlete: 401 otherwise
+export function authed<Args extends unknown[]>(handler: (userId: string, ...args: Args) => Promise<Response>) {
+  return async (...args: Args) => {
+    const userId = await currentUserId();
+    if (!userId) return jsonError(401, 'Not signed in');
+    return handler(userId, ...args);
+  };
+}
+
+type AthleteParams = { params: Promise<{ id: string }> };
+
+// Handlers on /coach/athletes/:id. Anyone the athlete hasn't named as a coach gets a 404, so accounts don't leak.
+export function asCoach(handler: (coach: UserRecord, athlete: UserRecord, request: Request) => Promise<Response>) {
+  return authed(async (userId, request: Request, { params }: AthleteParams) => {
+    const { id } = await params;
+    const [coach, athlete] = await Promise.all([findUserById(userId), findUserById(id)]);
+    if (!coach || !athlete?.coachIds?.includes(coach.id)) return jsonError(404, `No athlete ${id}`);
+    return handler(coach, athlete, request);
+  });
+}
+
+// Request bodies are untrusted; a parse failure is the caller's 400
+export async function readBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return undefined;
+  }
+}
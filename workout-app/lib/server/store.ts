@@ -0,0 +1,201 @@
+import { promises as fs } from 'node:fs';
+import path from 'node:path';
+import crypto from 'node:crypto';
+import type { Coaching, StoredState } from '../types';
+import { SCHEMA_VERSION } from '../schema';
+import { parseStoredState, storedState } from '../storage';
+
+// One JSON file per athlete plus two small indexes; enough for a single-node deployment.
+//   users.json         accounts and password hashes
+//   tokens.json        signed-in sessions, keyed by a hash of the cookie value
+//   users/<id>.json    that athlete's { version, setup, history }
+//   users/<id>.coaching.json   what their coaches have assigned and commented
+const DATA_DIR = process.env.FLEX_DATA_DIR ?? path.join(process.cwd(), '.data');
+const USERS_FILE = path.join(DATA_DIR, 'users.json');
+const TOKENS_FILE = path.join(DATA_DIR, 'tokens.json');
+
+const TOKEN_TTL_MS = 30 * 24 * 3600 * 1000;
+
+export type UserRecord = {
+  id: string;
+  username: string; // lowercased
+  salt: string;
+  passwordHash: string; // scrypt, hex
+  createdAtISO: string;
+  coachIds?: string[]; // accounts this athlete lets see their training and set their workouts
+};
+
+type TokenRecord = { userId: string; expiresAtISO: string };
+
+async function readJSON<T>(file: string, fallback: T): Promise<T> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as T;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return fallback;
+    throw e;
+  }
+}
+
+// Write to a temp file and rename over the original so a crash never leaves half a file behind
+async function writeJSON(file: string, data: unknown) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(data));
+  await fs.rename(tmp, file);
+}
+
+// Read-modify-write cycles on the same file run one at a time
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(file: string, fn: () => Promise<T>): Promise<T> {
+  const run = (locks.get(file) ?? Promise.resolve()).catch(() => undefined).then(fn);
+  locks.set(file, run);
+  return run;
+}
+
+function userFile(userId: string) {
+  return path.join(DATA_DIR, 'users', `${userId}.json`);
+}
+
+function coachingFile(userId: string) {
+  return path.join(DATA_DIR, 'users', `${userId}.coaching.json`);
+}
+
+function hashPassword(password: string, salt: string) {
+  return crypto.scryptSync(password, salt, 64).toString('hex');
+}
+
+function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export async function findUser(username: string) {
+  const users = await readJSON<UserRecord[]>(USERS_FILE, []);
+  return users.find(u => u.username === username.toLowerCase()) ?? null;
+}
+
+// null when the username is taken
+export function createUser(username: string, password: string): Promise<UserRecord | null> {
+  return withLock(USERS_FILE, async () => {
+    const users = await readJSON<UserRecord[]>(USERS_FILE, []);
+    const name = username.toLowerCase();
+    if (users.some(u => u.username === name)) return null;
+    const salt = crypto.randomBytes(16).toString('hex');
+    const user: UserRecord = {
+      id: crypto.randomUUID(),
+      username: name,
+      salt,
+      passwordHash: hashPassword(password, salt),
+      createdAtISO: new Date().toISOString(),
+    };
+    await writeJSON(USERS_FILE, [...users, user]);
+    return user;
+  });
+}
+
+export async function verifyUser(username: string, password: string) {
+  const user = await findUser(username);
+  if (!user) return null;
+  const expected = Buffer.from(user.passwordHash, 'hex');
+  const actual = Buffer.from(hashPassword(password, user.salt), 'hex');
+  return crypto.timingSafeEqual(expected, actual) ? user : null;
+}
+
+export async function findUserById(userId: string) {
+  const users = await readJSON<UserRecord[]>(USERS_FILE, []);
+  return users.find(u => u.id === userId) ?? null;
+}
+
+// Returns the raw token for the cookie; only its hash is kept on disk
+export function createToken(userId: string): Promise<string> {
+  return withLock(TOKENS_FILE, async () => {
+    const tokens = await readJSON<Record<string, TokenRecord>>(TOKENS_FILE, {});
+    const now = Date.now();
+    // drop expired sign-ins while we're here
+    const live = Object.fromEntries(Object.entries(tokens).filter(([, t]) => Date.parse(t.expiresAtISO) > now));
+    const token = crypto.randomBytes(32).toString('hex');
+    live[hashToken(token)] = { userId, expiresAtISO: new Date(now + TOKEN_TTL_MS).toISOString() };
+    await writeJSON(TOKENS_FILE, live);
+    return token;
+  });
+}
+
+export async function userIdForToken(token: string) {
+  const tokens = await readJSON<Record<string, TokenRecord>>(TOKENS_FILE, {});
+  const record = tokens[hashToken(token)];
+  if (!record || Date.parse(record.expiresAtISO) <= Date.now()) return null;
+  return record.userId;
+}
+
+export function deleteToken(token: string) {
+  return withLock(TOKENS_FILE, async () => {
+    const tokens = await readJSON<Record<string, TokenRecord>>(TOKENS_FILE, {});
+    delete tokens[hashToken(token)];
+    await writeJSON(TOKENS_FILE, tokens);
+  });
+}
+
+// Stored as the page last sent it; the page migrates older versions on load
+export function loadUserState(userId: string) {
+  return readJSON<StoredState>(userFile(userId), { version: SCHEMA_VERSION, setup: null, history: [] });
+}
+
+export const UNREADABLE_STATE = 'Stored training data no longer loads; restore a backup or reset it first';
+
+// Migrated to the current schema the same way the page does; null when it no longer parses
+export async function loadMigratedState(userId: string): Promise<StoredState | null> {
+  const parsed = parseStoredState(JSON.stringify(await loadUserState(userId)));
+  return parsed.ok ? storedState(parsed.state) : null;
+}
+
+async function saveUserState(file: string, state: StoredState) {
+  const history = [...state.history].sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+  const stored = { ...state, version: SCHEMA_VERSION, history };
+  await writeJSON(file, stored);
+  return stored;
+}
+
+// `update` sees the migrated state. null, with nothing written, when the stored state no longer parses.
+export function updateUserState(userId: string, update: (state: StoredState) => StoredState): Promise<StoredState | null> {
+  const file = userFile(userId);
+  return withLock(file, async () => {
+    const current = await loadMigratedState(userId);
+    return current ? saveUserState(file, update(current)) : null;
+  });
+}
+
+// Wholesale replace with an already validated current-schema state; what was stored before is never read
+export function replaceUserState(userId: string, state: StoredState): Promise<StoredState> {
+  const file = userFile(userId);
+  return withLock(file, () => saveUserState(file, state));
+}
+
+// null when the athlete no longer exists
+export function updateCoachIds(athleteId: string, update: (coachIds: string[]) => string[]): Promise<UserRecord | null> {
+  return withLock(USERS_FILE, async () => {
+    const users = await readJSON<UserRecord[]>(USERS_FILE, []);
+    const athlete = users.find(u => u.id === athleteId);
+    if (!athlete) return null;
+    const updated = { ...athlete, coachIds: update(athlete.coachIds ?? []) };
+    await writeJSON(USERS_FILE, users.map(u => (u.id === athleteId ? updated : u)));
+    return updated;
+  });
+}
+
+export async function athletesOf(coachId: string) {
+  const users = await readJSON<UserRecord[]>(USERS_FILE, []);
+  return users.filter(u => u.coachIds?.includes(coachId));
+}
+
+export function loadCoaching(athleteId: string) {
+  return readJSON<Coaching>(coachingFile(athleteId), { comments: [] });
+}
+
+export function updateCoaching(athleteId: string, update: (coaching: Coaching) => Coaching): Promise<Coaching> {
+  const file = coachingFile(athleteId);
+  return withLock(file, async () => {
+    const next = update(await loadCoaching(athleteId));
+    await writeJSON(file, next);
+    return next;
+  });
+}
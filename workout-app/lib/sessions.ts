@@ -0,0 +1,106 @@
+import type { Exercise, PlannedSession, Readiness, Session, SetLog, Setup, SplitDay } from './types';
+import { uid } from './util';
+import { buildDayWorkout, pickNextDay } from './splits';
+import { parseRepRange, prescribeExercise, progressionHistory } from './progression';
+import { applyDeload, computeReadiness } from './readiness';
+import { applyBlockWeek, blockWeek, nextPlannedSession, type BlockWeek } from './block';
+import { withWarmups } from './warmups';
+import { DEFAULT_SESSION_MINUTES, fitToTime } from './goals';
+import { avoidPain, capForPain, painAllows } from './pain';
+
+// Planning a session: what to train next and the prescription for each exercise.
+
+// Warm-ups first, then the working sets; nothing logged yet
+export function emptySets(ex: Exercise): SetLog[] {
+  const warmups: SetLog[] = (ex.warmups ?? []).map(() => ({ type: 'warmup' }));
+  return [...warmups, ...Array.from({ length: ex.sets }, (): SetLog => ({ type: 'working' }))];
+}
+
+// Reps prescribed for one working set: "5/3/1+" lists them per set, a range like "8-10" means its top
+export function prescribedReps(ex: Exercise, workingIndex: number) {
+  if (ex.reps.includes('/')) {
+    const parts = ex.reps.split('/');
+    return parseInt(parts[Math.min(workingIndex, parts.length - 1)], 10) || 0;
+  }
+  return parseRepRange(ex.reps).max;
+}
+
+// What set `index` of `sets` asks for: its step of the warm-up ramp, or the working prescription
+export function setTarget(ex: Exercise, sets: SetLog[], index: number): { weightLb?: number; reps?: number } {
+  const warmupsBefore = sets.slice(0, index).filter(st => st.type === 'warmup').length;
+  if (sets[index]?.type === 'warmup') return ex.warmups?.[warmupsBefore] ?? {};
+  return { weightLb: ex.targetWeightLb, reps: prescribedReps(ex, index - warmupsBefore) };
+}
+
+// A fresh session for `day` on `dateISO`, prescribed only from what was trained before that date.
+// Sessions from a training block also get that week's volume, or its deload. Pain flags swap exercises
+// and cap loads, and the result is fitted to the setup's time budget.
+export function planSession(setup: Setup, history: Session[], day: SplitDay, dateISO: string, readiness?: Readiness, week?: BlockWeek): Session {
+  const earlier = progressionHistory(history, dateISO);
+  const deload = readiness?.deload || week?.deload;
+  const prepare = (ex: Exercise) => {
+    const prescribed = prescribeExercise(setup, earlier, ex);
+    const adjusted = deload ? applyDeload(setup, prescribed) : week ? applyBlockWeek(setup, prescribed, week) : prescribed;
+    return withWarmups(setup, capForPain(setup, adjusted, dateISO));
+  };
+  const timeBudgetMin = setup.sessionMinutes ?? DEFAULT_SESSION_MINUTES;
+  const built = avoidPain(setup, buildDayWorkout(day, setup), dateISO).map(prepare);
+  const workout = fitToTime(setup, built, timeBudgetMin, prepare, ex => painAllows(setup, ex, dateISO));
+
+  return {
+    id: uid('sess'),
+    dateISO,
+    dayId: day.id,
+    dayType: day.name,
+    muscleGroups: Array.from(new Set(workout.flatMap(w => w.muscleGroups))),
+    energy: 3,
+    difficulty: 3,
+    workout,
+    logs: workout.map(w => ({ exerciseId: w.id, sets: emptySets(w) })),
+    deload: deload || undefined,
+    readiness,
+    timeBudgetMin,
+  };
+}
+
+// Same exercises and targets on a new date, with nothing logged yet
+export function duplicateSession(session: Session, dateISO: string): Session {
+  const workout = session.workout.map(ex => ({ ...ex, id: uid('ex') }));
+  return {
+    id: uid('sess'),
+    dateISO,
+    dayId: session.dayId,
+    dayType: session.dayType,
+    muscleGroups: [...session.muscleGroups],
+    energy: 3,
+    difficulty: 3,
+    workout,
+    logs: workout.map(w => ({ exerciseId: w.id, sets: emptySets(w) })),
+    deload: session.deload,
+  };
+}
+
+// What to train next: the block's next slot while one runs, otherwise the split rotation
+export function nextWorkoutDay(setup: Setup, history: Session[]): { day: SplitDay; planned: PlannedSession | null } | null {
+  const planned = setup.plan ? nextPlannedSession(setup.plan, history) : null;
+  const plannedDay = setup.split.days.find(d => d.id === planned?.dayId);
+  if (planned && plannedDay) return { day: plannedDay, planned };
+  const day = pickNextDay(history, setup.split);
+  return day ? { day, planned: null } : null;
+}
+
+// Train a slot of the block on `dateISO`, whatever date it was planned for
+export function planBlockSession(setup: Setup, history: Session[], p: PlannedSession, dateISO: string): Session | null {
+  const day = setup.split.days.find(d => d.id === p.dayId);
+  if (!setup.plan || !day) return null;
+  const week = blockWeek(setup.plan, p.week);
+  return { ...planSession(setup, history, day, dateISO, computeReadiness(history, dateISO), week), plannedId: p.id };
+}
+
+// The session to train on `dateISO`, or null when the split has no days
+export function planNextSession(setup: Setup, history: Session[], dateISO: string): Session | null {
+  const next = nextWorkoutDay(setup, history);
+  if (!next) return null;
+  if (next.planned) return planBlockSession(setup, history, next.planned, dateISO);
+  return planSession(setup, history, next.day, dateISO, computeReadiness(history, dateISO));
+}
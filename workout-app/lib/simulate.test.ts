@@ -0,0 +1,74 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import type { LiftKey, Session, SetLog } from './types';
+import { LIFT_KEYS } from './schema';
+import { DAY_MS } from './util';
+import { planNextSession, prescribedReps } from './sessions';
+import { checkProgression, simulateHistory, SIMULATED_ATHLETES, type AthleteProfile, type SimulatedHistory } from './simulate';
+
+const START = '2025-01-06';
+
+function verdicts(sim: SimulatedHistory) {
+  return Object.fromEntries(checkProgression(sim).map(c => [c.lift, c.verdict]));
+}
+
+// The planner's sessions for a lifter who rates every session `difficulty`, against a true 1RM that grows by
+// `weeklyGain` of the starting strength each week. With `logged`, every working set goes in exactly as prescribed.
+function plannedHistory(profile: AthleteProfile, weeks: number, difficulty: number, weeklyGain: number, logged: boolean): SimulatedHistory {
+  const start = Date.parse(START);
+  const truth: SimulatedHistory['truth'] = {};
+  let history: Session[] = [];
+  for (let day = 0; day < weeks * 7; day++) {
+    const clock = start + day * DAY_MS;
+    if (!profile.trainingDays.includes(new Date(clock).getUTCDay())) continue;
+    const planned = planNextSession(profile.setup, history, new Date(clock).toISOString());
+    if (!planned) break;
+    const growth = 1 + (weeklyGain * day) / 7;
+    truth[planned.id] = Object.fromEntries(LIFT_KEYS.map(l => [l, profile.startE1RMLb[l] * growth])) as Record<LiftKey, number>;
+    const logs = logged
+      ? planned.workout.map(ex => ({
+          exerciseId: ex.id,
+          sets: Array.from({ length: ex.sets }, (_, i): SetLog => ({ type: 'working', weightLb: ex.targetWeightLb, reps: prescribedReps(ex, i) })),
+        }))
+      : planned.logs;
+    history = [{ ...planned, difficulty, logs }, ...history];
+  }
+  return { state: { setup: profile.setup, history }, truth, missedDays: 0 };
+}
+
+describe('simulated athletes', () => {
+  for (const [name, profile] of Object.entries(SIMULATED_ATHLETES)) {
+    for (const seed of [1, 2, 3, 4]) {
+      it(`${name}, seed ${seed}: a year of progression keeps pace`, () => {
+        const sim = simulateHistory(profile, { seed, startISO: START, weeks: 52 });
+        for (const check of checkProgression(sim)) {
+          assert.equal(check.verdict, 'ok', `${check.lift}: ${JSON.stringify(check)}`);
+        }
+      });
+    }
+
+    it(`${name}: two years of progression keeps pace`, () => {
+      const sim = simulateHistory(profile, { seed: 7, startISO: START, weeks: 104 });
+      for (const check of checkProgression(sim)) {
+        assert.equal(check.verdict, 'ok', `${check.lift}: ${JSON.stringify(check)}`);
+      }
+    });
+  }
+
+  it('replays the same history from the same seed', () => {
+    const run = () => JSON.stringify(simulateHistory(SIMULATED_ATHLETES.busy, { seed: 11, startISO: START, weeks: 12 }));
+    assert.equal(run(), run());
+  });
+});
+
+describe('checkProgression', () => {
+  it('flags runaway loads: linear progression for a lifter who is not improving but logs every set as prescribed', () => {
+    const sim = plannedHistory(SIMULATED_ATHLETES.novice, 26, 2, 0, true);
+    assert.ok(Object.values(verdicts(sim)).includes('runaway'), JSON.stringify(checkProgression(sim)));
+  });
+
+  it('flags stalled loads: linear progression on unlogged sessions rated hard for a lifter who keeps improving', () => {
+    const sim = plannedHistory(SIMULATED_ATHLETES.novice, 26, 5, 0.01, false);
+    assert.ok(Object.values(verdicts(sim)).includes('stalled'), JSON.stringify(checkProgression(sim)));
+  });
+});
@@ -0,0 +1,281 @@
+import type { AppState, Exercise, LiftKey, ProgressionStrategyId, Session, SetLog, Setup, Split } from './types';
+import { clamp, DAY_MS, median, newestFirst, withIdSource } from './util';
+import { ALL_EQUIPMENT, LIFT_KEYS } from './schema';
+import { DEFAULT_PLATES, minLoadStepLb } from './units';
+import { SPLIT_PRESETS } from './splits';
+import { DEFAULT_PROGRESSION, liftIncrementLb, loadForReps, parseRepRange, progressionHistory, workingSetLoads } from './progression';
+import { planNextSession, prescribedReps } from './sessions';
+import { estimateWorkoutMinutes } from './goals';
+
+// A seeded athlete simulator: months of history produced by the real planner, with logs filled in from a
+// hidden "true" strength that grows, tires, sleeps badly and skips sessions. Used for demo data and to check
+// that progression keeps pace with the athlete over long runs.
+
+export type AthleteProfile = {
+  label: string;
+  setup: Setup;
+  trainingDays: number[]; // weekdays, 0 = Sunday
+  startE1RMLb: Record<LiftKey, number>; // true strength on day one
+  potentialGain: number; // how far true 1RMs can rise over the start, e.g. 0.4 = 40%
+  adaptationRate: number; // share of the gap to that ceiling closed by each hard session of a lift
+  attendance: number; // chance a training day happens, 0-1
+  breakChance: number; // chance per week of a 1-2 week break (illness, holidays)
+  rpeNoise: number; // standard deviation of reported RPE
+  sleepHours: number; // a typical night
+  bodyweightTrendLb: number; // per week
+};
+
+export type SimulatedHistory = {
+  state: AppState & { setup: Setup };
+  truth: Record<string, Record<LiftKey, number>>; // true 1RMs on each simulated session, by session id
+  missedDays: number; // training days skipped, breaks included
+};
+
+// mulberry32: small, fast and good enough for simulation; the same seed always gives the same sequence
+export function seededRandom(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Standard normal from two uniforms (Box-Muller)
+function gaussian(random: () => number) {
+  const u = 1 - random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
+
+// Lifters tend to enter a 5RM a little under what they could do
+function athleteSetup(
+  fields: Pick<Setup, 'name' | 'gender' | 'heightIn' | 'weightLb' | 'goal'>, split: Split,
+  progression: ProgressionStrategyId | null, startE1RMLb: Record<LiftKey, number>,
+): Setup {
+  const fiveRM = { ...startE1RMLb };
+  for (const lift of LIFT_KEYS) fiveRM[lift] = Math.round((loadForReps(startE1RMLb[lift], 5) * 0.95) / 5) * 5;
+  return {
+    ...fields,
+    fiveRM,
+    progression: progression ? { bench: progression, squat: progression, deadlift: progression, ohp: progression, row: progression } : DEFAULT_PROGRESSION,
+    split,
+    equipment: ALL_EQUIPMENT,
+    units: 'lb',
+    plates: DEFAULT_PLATES.lb,
+  };
+}
+
+const NOVICE_E1RM = { bench: 155, squat: 205, deadlift: 250, ohp: 95, row: 135 };
+const INTERMEDIATE_E1RM = { bench: 265, squat: 335, deadlift: 390, ohp: 160, row: 215 };
+const ADVANCED_E1RM = { bench: 320, squat: 420, deadlift: 490, ohp: 190, row: 250 };
+const BUSY_E1RM = { bench: 95, squat: 155, deadlift: 185, ohp: 65, row: 95 };
+
+export const SIMULATED_ATHLETES: Record<string, AthleteProfile> = {
+  novice: {
+    label: 'Novice on linear progression, full body 3x',
+    setup: athleteSetup({ name: 'Sam (simulated)', gender: 'Male', heightIn: 70, weightLb: 165, goal: 'Strength' }, SPLIT_PRESETS.fullBody, 'linear', NOVICE_E1RM),
+    trainingDays: [1, 3, 5],
+    startE1RMLb: NOVICE_E1RM,
+    potentialGain: 0.6,
+    adaptationRate: 0.035,
+    attendance: 0.9,
+    breakChance: 0.03,
+    rpeNoise: 1,
+    sleepHours: 7.5,
+    bodyweightTrendLb: 0.3,
+  },
+  intermediate: {
+    label: 'Intermediate on RPE autoregulation, upper/lower',
+    setup: athleteSetup({ name: 'Alex (simulated)', gender: 'Male', heightIn: 71, weightLb: 185, goal: 'Hypertrophy' }, SPLIT_PRESETS.upperLower, null, INTERMEDIATE_E1RM),
+    trainingDays: [1, 2, 4, 5],
+    startE1RMLb: INTERMEDIATE_E1RM,
+    potentialGain: 0.15,
+    adaptationRate: 0.02,
+    attendance: 0.85,
+    breakChance: 0.04,
+    rpeNoise: 1,
+    sleepHours: 7,
+    bodyweightTrendLb: 0.1,
+  },
+  advanced: {
+    label: 'Advanced on 5/3/1, classic 4-day',
+    setup: athleteSetup({ name: 'Jordan (simulated)', gender: 'Male', heightIn: 72, weightLb: 205, goal: 'Strength' }, SPLIT_PRESETS.classic, 'wave531', ADVANCED_E1RM),
+    trainingDays: [1, 2, 4, 6],
+    startE1RMLb: ADVANCED_E1RM,
+    potentialGain: 0.08,
+    adaptationRate: 0.015,
+    attendance: 0.92,
+    breakChance: 0.03,
+    rpeNoise: 0.75,
+    sleepHours: 7.5,
+    bodyweightTrendLb: 0,
+  },
+  busy: {
+    label: 'Busy parent on double progression, push/pull/legs',
+    setup: athleteSetup({ name: 'Robin (simulated)', gender: 'Female', heightIn: 65, weightLb: 140, goal: 'Health' }, SPLIT_PRESETS.ppl, 'double', BUSY_E1RM),
+    trainingDays: [2, 4, 6],
+    startE1RMLb: BUSY_E1RM,
+    potentialGain: 0.35,
+    adaptationRate: 0.02,
+    attendance: 0.65,
+    breakChance: 0.06,
+    rpeNoise: 1.5,
+    sleepHours: 6.2,
+    bodyweightTrendLb: -0.2,
+  },
+};
+
+// Reps possible at `weightLb` for someone whose 1RM today is `capacityLb` (Epley, inverted)
+function repsPossible(capacityLb: number, weightLb: number) {
+  if (weightLb > capacityLb) return 0;
+  return Math.max(1, Math.floor(30 * (capacityLb / weightLb - 1)));
+}
+
+// Working sets stop a rep short of failure, at the prescription's top, or as far as an AMRAP goes.
+// Each set costs half a rep of what's left.
+function simulateSets(setup: Setup, ex: Exercise, capacityLb: number | undefined, random: () => number, rpeNoise: number): SetLog[] {
+  const warmups: SetLog[] = (ex.warmups ?? []).map(w => ({ type: 'warmup', weightLb: w.weightLb, reps: w.reps }));
+  const loads = workingSetLoads(setup, ex);
+  const working = loads.map((weightLb, i): SetLog => {
+    const target = prescribedReps(ex, i);
+    if (capacityLb === undefined || weightLb === undefined) {
+      // accessories: no load to model, just reps near the top of the range
+      return { type: 'working', reps: Math.max(1, target - Math.floor(random() * 3)), rpe: clamp(Math.round((8 + gaussian(random) * rpeNoise) * 2) / 2, 5, 10) };
+    }
+    const possible = Math.max(0, repsPossible(capacityLb, weightLb) - Math.floor(i / 2));
+    const amrap = ex.reps.endsWith('+') && i === ex.sets - 1;
+    const reps = Math.max(0, Math.min(amrap ? possible : target, possible - 1));
+    const rpe = clamp(Math.round((10 - (possible - reps) + gaussian(random) * rpeNoise) * 2) / 2, 5, 10);
+    return { type: 'working', weightLb, reps, rpe };
+  });
+  return [...warmups, ...working];
+}
+
+function ratedDifficulty(rpes: number[]) {
+  const mean = rpes.length ? rpes.reduce((a, b) => a + b, 0) / rpes.length : 7;
+  return mean >= 9.5 ? 5 : mean >= 8.5 ? 4 : mean >= 7.5 ? 3 : mean >= 6.5 ? 2 : 1;
+}
+
+// `weeks` of training from `startISO` for `profile`. Every session comes from planNextSession, so the
+// progression, readiness deloads and time budget are the app's own; only the lifter is simulated.
+export function simulateHistory(profile: AthleteProfile, opts: { seed: number; startISO: string; weeks: number }): SimulatedHistory {
+  const random = seededRandom(opts.seed);
+  const setup = profile.setup;
+  const firstDay = Math.floor(Date.parse(opts.startISO) / DAY_MS) * DAY_MS + 18 * 3600 * 1000;
+  let clock = firstDay;
+
+  return withIdSource({ random, now: () => clock }, () => {
+    const ceiling = Object.fromEntries(LIFT_KEYS.map(l => [l, profile.startE1RMLb[l] * (1 + profile.potentialGain)])) as Record<LiftKey, number>;
+    const strength = { ...profile.startE1RMLb };
+    const lastTrained = Object.fromEntries(LIFT_KEYS.map(l => [l, firstDay])) as Record<LiftKey, number>;
+    const truth: SimulatedHistory['truth'] = {};
+    let history: Session[] = [];
+    let fatigue = 0;
+    let breakUntil = 0;
+    let missedDays = 0;
+    let bodyweight = setup.weightLb;
+
+    for (let day = 0; day < opts.weeks * 7; day++) {
+      clock = firstDay + day * DAY_MS;
+      fatigue *= 0.7;
+      bodyweight += profile.bodyweightTrendLb / 7;
+      // strength fades after two weeks without training a lift
+      for (const lift of LIFT_KEYS) {
+        if (clock - lastTrained[lift] > 14 * DAY_MS) strength[lift] = Math.max(profile.startE1RMLb[lift] * 0.9, strength[lift] * 0.998);
+      }
+      const weekday = new Date(clock).getUTCDay();
+      if (weekday === 1 && random() < profile.breakChance) breakUntil = clock + (7 + Math.floor(random() * 8)) * DAY_MS;
+      if (!profile.trainingDays.includes(weekday)) continue;
+      if (clock < breakUntil || random() > profile.attendance) {
+        missedDays++;
+        continue;
+      }
+
+      const dateISO = new Date(clock).toISOString();
+      const planned = planNextSession(setup, history, dateISO);
+      if (!planned) break;
+      const sleepHours = clamp(profile.sleepHours + gaussian(random) * 0.8, 4, 10);
+      const form = (1 - 0.06 * fatigue) * (1 - Math.max(0, 7 - sleepHours) * 0.02) * (1 + gaussian(random) * 0.03);
+
+      const logs = planned.workout.map(ex => {
+        const capacity = ex.primary === 'accessory' ? undefined : strength[ex.primary] * form;
+        return { exerciseId: ex.id, sets: simulateSets(setup, ex, capacity, random, profile.rpeNoise) };
+      });
+      const mainRPEs = planned.workout.flatMap((ex, i) => (ex.primary === 'accessory' ? [] : logs[i].sets.filter(st => st.type !== 'warmup').map(st => st.rpe ?? 7)));
+      const difficulty = ratedDifficulty(mainRPEs);
+      const session: Session = {
+        ...planned,
+        logs,
+        difficulty,
+        energy: clamp(Math.round(4 - fatigue * 2 + (sleepHours - 7) * 0.5 + gaussian(random) * 0.5), 1, 5),
+        sleepHours: Math.round(sleepHours * 2) / 2,
+        bodyweightLb: random() < 0.3 ? Math.round((bodyweight + gaussian(random)) * 10) / 10 : undefined,
+        durationSec: Math.round(estimateWorkoutMinutes(planned.workout) * 60 * (0.9 + random() * 0.3)),
+      };
+      truth[session.id] = { ...strength };
+      history = [session, ...history];
+
+      // sessions close part of the gap to the ceiling: all of the rate when the working sets end within
+      // three reps of failure, a fifth of it when they're far from it; deloads only maintain
+      for (const [i, ex] of planned.workout.entries()) {
+        if (ex.primary === 'accessory') continue;
+        lastTrained[ex.primary] = clock;
+        if (planned.deload || ex.targetWeightLb === undefined) continue;
+        const topReps = Math.max(0, ...logs[i].sets.filter(st => st.type !== 'warmup').map(st => st.reps ?? 0));
+        const inReserve = repsPossible(strength[ex.primary] * form, ex.targetWeightLb) - topReps;
+        const stimulus = clamp(1 - (inReserve - 3) / 10, 0.2, 1);
+        strength[ex.primary] += (ceiling[ex.primary] - strength[ex.primary]) * profile.adaptationRate * stimulus;
+      }
+      fatigue += 0.5 + 0.1 * (difficulty - 3);
+    }
+
+    return { state: { setup, history: newestFirst(history) }, truth, missedDays };
+  });
+}
+
+export type ProgressionCheck = {
+  lift: LiftKey;
+  sessions: number; // sessions that prescribed the lift, deloads left out
+  trueGain: number; // growth of the true 1RM from the second quarter of those sessions to the last, as a share
+  loadGain: number; // growth of the prescribed load (a 5/3/1 training max) over the same span
+  overreach: number; // share of sessions asking for more than the athlete could lift for the reps
+  verdict: 'ok' | 'stalled' | 'runaway' | 'untrained';
+};
+
+// Whether each lift's prescriptions kept pace with the simulated athlete. Stalled: the athlete got strong
+// enough for two more reps at the working weight but the load never went up. Runaway: more than a fifth of
+// sessions asked for a load the athlete couldn't lift for the prescribed reps.
+export function checkProgression(sim: SimulatedHistory): ProgressionCheck[] {
+  const setup = sim.state.setup;
+  const sessions = progressionHistory(sim.state.history).reverse();
+  return LIFT_KEYS.map(lift => {
+    const points = sessions.flatMap(s => {
+      const ex = s.workout.find(e => e.primary === lift && e.targetWeightLb);
+      const trueLb = sim.truth[s.id]?.[lift];
+      if (!ex || trueLb === undefined) return [];
+      const reps = ex.reps.includes('/') ? prescribedReps(ex, ex.sets - 1) : parseRepRange(ex.reps).min;
+      // a 5/3/1 wave progresses its training max; the week decides the load
+      const loadLb = ex.scheme?.trainingMaxLb ?? ex.targetWeightLb!;
+      return [{ loadLb, trueLb, over: ex.targetWeightLb! > loadForReps(trueLb, reps) * 1.02 }];
+    });
+    if (points.length < 8) return { lift, sessions: points.length, trueGain: 0, loadGain: 0, overreach: 0, verdict: 'untrained' };
+    // the first quarter is the climb from a cautious start to the lifter's level; after that, compare the
+    // typical load and strength of the second and last quarters, so one heavy or light day doesn't decide it
+    const quarter = Math.floor(points.length / 4);
+    const settled = points.slice(quarter, 2 * quarter);
+    const recent = points.slice(-quarter);
+    const typical = (ps: typeof points, key: 'loadLb' | 'trueLb') => median(ps.map(p => p[key]));
+    const trueGain = typical(recent, 'trueLb') / typical(settled, 'trueLb') - 1;
+    const loadGain = typical(recent, 'loadLb') / typical(settled, 'loadLb') - 1;
+    const overreach = points.filter(p => p.over).length / points.length;
+    // outgrown: the settled load now goes for two more reps (Epley), and the gain at an 8-rep working weight
+    // is worth two of the strategy's load steps; less than that is a noisy day or a plate the load can't split
+    const gainedLb = typical(recent, 'trueLb') - typical(settled, 'trueLb');
+    const step = setup.progression[lift] === 'rpe' ? minLoadStepLb(setup) : liftIncrementLb(lift, setup.units);
+    const outgrown = (30 * gainedLb) / typical(settled, 'loadLb') >= 2 && loadForReps(gainedLb, 8) >= 2 * step;
+    const verdict = overreach > 0.2 ? 'runaway' : outgrown && loadGain <= 0 ? 'stalled' : 'ok';
+    return { lift, sessions: points.length, trueGain, loadGain, overreach, verdict };
+  });
+}
@@ -0,0 +1,99 @@
+import type { Exercise, Session, Setup, Split, SplitDay } from './types';
+import { alternativesFor, CATALOG_BY_ID, exerciseFromCatalog, hasEquipment } from './catalog';
+import { applyGoal } from './goals';
+
+// Split presets and turning a split day into a list of exercises.
+
+// Pick the first day not seen in the last rotation; else continue on from the last day trained.
+// Sessions outside the split, such as retests, don't move the rotation.
+export function pickNextDay(history: Session[], split: Split): SplitDay | null {
+  const days = split.days;
+  if (days.length === 0) return null;
+
+  const trained = history.filter(h => h.dayId);
+  const recent = trained.slice(0, days.length).map(h => h.dayId);
+  for (const day of days) {
+    if (!recent.includes(day.id)) return day;
+  }
+  const idx = days.findIndex(d => d.id === trained[0]?.dayId);
+  return days[(idx + 1) % days.length];
+}
+
+// Exercises the lifter can't do with their equipment are swapped for the nearest alternative, or dropped.
+// Sets, reps and rest follow the goal.
+export function buildDayWorkout(day: SplitDay, setup: Setup): Exercise[] {
+  const workout: Exercise[] = [];
+  for (const t of day.exercises) {
+    const entry = CATALOG_BY_ID.get(t.catalogId);
+    if (!entry) continue;
+    const edited = t.sets !== entry.sets || t.reps !== entry.reps;
+    if (hasEquipment(entry, setup.equipment)) {
+      workout.push(applyGoal(setup.goal, exerciseFromCatalog(entry, t.sets, t.reps), edited));
+      continue;
+    }
+    const alt = alternativesFor(entry.id, setup.equipment)[0];
+    if (!alt) continue;
+    const swapped = { ...exerciseFromCatalog(alt, t.sets, t.reps), notes: `Swapped for ${entry.name} (equipment)` };
+    workout.push(applyGoal(setup.goal, swapped, edited));
+  }
+  return workout;
+}
+
+function presetDay(id: string, name: string, catalogIds: string[]): SplitDay {
+  return {
+    id,
+    name,
+    exercises: catalogIds.map(cid => {
+      const entry = CATALOG_BY_ID.get(cid)!;
+      return { catalogId: cid, sets: entry.sets, reps: entry.reps };
+    }),
+  };
+}
+
+export const SPLIT_PRESETS: Record<string, Split> = {
+  classic: {
+    name: 'Classic 4-day',
+    days: [
+      presetDay('classic-chest', 'Chest & Triceps', ['barbell-bench-press', 'incline-dumbbell-press', 'dips', 'triceps-rope-pushdown', 'overhead-triceps-extension']),
+      presetDay('classic-back', 'Back & Biceps', ['deadlift', 'barbell-row', 'pull-up', 'face-pull', 'dumbbell-curl']),
+      presetDay('classic-legs', 'Legs', ['back-squat', 'romanian-deadlift', 'leg-press', 'hamstring-curl', 'calf-raise']),
+      // Arms day = Shoulders + Biceps + Triceps
+      presetDay('classic-arms', 'Arms', ['overhead-press', 'lateral-raise', 'incline-dumbbell-curl', 'skull-crusher', 'hammer-curl']),
+    ],
+  },
+  ppl: {
+    name: 'Push / Pull / Legs',
+    days: [
+      presetDay('ppl-push', 'Push', ['barbell-bench-press', 'overhead-press', 'incline-dumbbell-press', 'lateral-raise', 'triceps-rope-pushdown']),
+      presetDay('ppl-pull', 'Pull', ['deadlift', 'barbell-row', 'pull-up', 'face-pull', 'dumbbell-curl']),
+      presetDay('ppl-legs', 'Legs', ['back-squat', 'romanian-deadlift', 'leg-press', 'hamstring-curl', 'calf-raise']),
+    ],
+  },
+  upperLower: {
+    name: 'Upper / Lower',
+    days: [
+      presetDay('ul-upper-a', 'Upper A', ['barbell-bench-press', 'barbell-row', 'incline-dumbbell-press', 'pull-up', 'triceps-rope-pushdown']),
+      presetDay('ul-lower-a', 'Lower A', ['back-squat', 'romanian-deadlift', 'leg-press', 'calf-raise']),
+      presetDay('ul-upper-b', 'Upper B', ['overhead-press', 'seated-cable-row', 'dips', 'lateral-raise', 'hammer-curl']),
+      presetDay('ul-lower-b', 'Lower B', ['deadlift', 'walking-lunge', 'hamstring-curl', 'calf-raise']),
+    ],
+  },
+  fullBody: {
+    name: 'Full body 3x',
+    days: [
+      presetDay('fb-a', 'Full Body A', ['back-squat', 'barbell-bench-press', 'barbell-row', 'face-pull']),
+      presetDay('fb-b', 'Full Body B', ['deadlift', 'overhead-press', 'pull-up', 'dumbbell-curl']),
+      presetDay('fb-c', 'Full Body C', ['back-squat', 'incline-dumbbell-press', 'seated-cable-row', 'triceps-rope-pushdown']),
+    ],
+  },
+  bro: {
+    name: 'Bro split',
+    days: [
+      presetDay('bro-chest', 'Chest', ['barbell-bench-press', 'incline-dumbbell-press', 'dips']),
+      presetDay('bro-back', 'Back', ['deadlift', 'barbell-row', 'pull-up', 'seated-cable-row']),
+      presetDay('bro-shoulders', 'Shoulders', ['overhead-press', 'lateral-raise', 'face-pull']),
+      presetDay('bro-legs', 'Legs', ['back-squat', 'romanian-deadlift', 'leg-press', 'hamstring-curl', 'calf-raise']),
+      presetDay('bro-arms', 'Arms', ['dumbbell-curl', 'skull-crusher', 'hammer-curl', 'triceps-rope-pushdown']),
+    ],
+  },
+};
@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SCHEMA_VERSION } from './schema';
+import { parseStoredState } from './storage';
+
+// A v1 save: no version field, the first four-day rotation and one free-text log per exercise
+const V1_SAVE = {
+  setup: {
+    name: 'Sam',
+    gender: 'Other',
+    heightIn: 70,
+    weightLb: 180,
+    goal: 'Strength',
+    fiveRM: { bench: 185, squat: 245, deadlift: 285, ohp: 115, row: 155 },
+  },
+  history: [
+    {
+      id: 's1',
+      dateISO: '2024-03-04T18:00:00.000Z',
+      dayType: 'Chest & Triceps',
+      muscleGroups: ['Chest', 'Triceps', 'Shoulders'],
+      energy: 4,
+      difficulty: 3,
+      workout: [
+        { id: 'ex1', name: 'Barbell Bench Press', primary: 'bench', muscleGroups: ['Chest', 'Triceps', 'Shoulders'], sets: 4, reps: '6-10', targetWeightLb: 165 },
+        { id: 'ex2', name: 'Triceps Rope Pushdown', primary: 'accessory', muscleGroups: ['Triceps'], sets: 3, reps: '10-15' },
+      ],
+      logs: [
+        { exerciseId: 'ex1', actualWeightLb: 165, actualReps: '8,8,7,6', rpe: 9 },
+        { exerciseId: 'ex2' },
+      ],
+    },
+  ],
+};
+
+describe('parseStoredState', () => {
+  it('migrates a v1 save to the current schema', () => {
+    const result = parseStoredState(JSON.stringify(V1_SAVE));
+    assert.ok(result.ok, result.ok ? '' : result.reason);
+    assert.equal(result.fromVersion, 1);
+
+    const { setup, history } = result.state;
+    assert.ok(setup);
+    assert.deepEqual(setup.split.days.map(d => d.name), ['Chest & Triceps', 'Back & Biceps', 'Legs', 'Arms']);
+    for (const day of setup.split.days) {
+      assert.equal(day.exercises.length, 5, `${day.name} lost exercises`);
+    }
+    assert.deepEqual(setup.split.days[0].exercises[0], { catalogId: 'barbell-bench-press', sets: 4, reps: '6-10' });
+    assert.equal(setup.units, 'lb');
+
+    const [session] = history;
+    assert.equal(session.dayId, 'classic-chest');
+    assert.equal(session.workout[0].catalogId, 'barbell-bench-press');
+    assert.deepEqual(session.logs[0].sets.map(s => s.reps), [8, 8, 7, 6]);
+    assert.equal(session.logs[0].sets[3].rpe, 9);
+    assert.equal(session.logs[1].sets.length, 3);
+  });
+
+  it('refuses a save from a newer app', () => {
+    const result = parseStoredState(JSON.stringify({ version: SCHEMA_VERSION + 1, setup: null, history: [] }));
+    assert.equal(result.ok, false);
+  });
+});
@@ -0,0 +1,197 @@
+import type { AppState, Exercise, ExerciseLog, Session, SetLog, StoredState } from './types';
+import { ALL_EQUIPMENT, isRecord, SCHEMA_VERSION, validateState } from './schema';
+import { newestFirst } from './util';
+import { DEFAULT_PLATES } from './units';
+import { catalogIdForName, findCatalogByName } from './catalog';
+import { DEFAULT_PROGRESSION } from './progression';
+import { emptySets } from './sessions';
+
+// Reading saved state of any schema version and migrating it to the current one.
+
+// v1 logs: one weight, a free-text reps string and a single RPE per exercise
+type LegacyExerciseLog = {
+  exerciseId: string;
+  actualWeightLb?: number;
+  actualReps?: string; // e.g. "10,9,8"
+  rpe?: number; // 1-10
+  notes?: string;
+};
+
+type ParseResult = { ok: true; state: AppState; fromVersion: number } | { ok: false; reason: string };
+
+// "10,9,8" @ 185 => three working sets at 185; the single v1 RPE goes on the last set
+function parseLegacyLog(log: LegacyExerciseLog, planned?: Exercise): ExerciseLog {
+  const reps = (log.actualReps ?? '')
+    .split(/[\s,;/]+/)
+    .map(r => parseInt(r, 10))
+    .filter(r => Number.isFinite(r) && r >= 0);
+
+  let sets: SetLog[];
+  if (reps.length > 0) {
+    sets = reps.map(r => ({ type: 'working', weightLb: log.actualWeightLb, reps: r }));
+  } else if (log.actualWeightLb !== undefined) {
+    sets = [{ type: 'working', weightLb: log.actualWeightLb }];
+  } else {
+    sets = planned ? emptySets(planned) : [];
+  }
+  if (log.rpe !== undefined && sets.length > 0) {
+    sets[sets.length - 1] = { ...sets[sets.length - 1], rpe: log.rpe };
+  }
+
+  return { exerciseId: log.exerciseId, sets, notes: log.notes };
+}
+
+function normalizeSession(s: Session): Session {
+  const logs = (s.logs ?? []).map(l => {
+    if (Array.isArray((l as ExerciseLog).sets)) return l;
+    return parseLegacyLog(l as LegacyExerciseLog, s.workout.find(ex => ex.id === l.exerciseId));
+  });
+  return { ...s, logs };
+}
+
+export function emptyState(): AppState {
+  return { setup: null, history: [] };
+}
+
+// The four-day rotation as v4 stored it, by exercise name. Migrations write what their schema version held,
+// so later steps see the shape they expect; the live presets have moved on since.
+const V4_CLASSIC_SPLIT = (() => {
+  type V4Exercise = { name: string; primary: string; muscleGroups: string[]; sets: number; reps: string };
+  const ex = (name: string, primary: string, muscleGroups: string[], sets: number, reps: string): V4Exercise =>
+    ({ name, primary, muscleGroups, sets, reps });
+  return {
+    name: 'Classic 4-day',
+    days: [
+      { id: 'classic-chest', name: 'Chest & Triceps', exercises: [
+        ex('Barbell Bench Press', 'bench', ['Chest', 'Triceps', 'Shoulders'], 4, '6-10'),
+        ex('Incline Dumbbell Press', 'accessory', ['Chest'], 3, '8-12'),
+        ex('Dips (Assisted if needed)', 'accessory', ['Chest', 'Triceps'], 3, '6-12'),
+        ex('Triceps Rope Pushdown', 'accessory', ['Triceps'], 3, '10-15'),
+        ex('Overhead Triceps Extension', 'accessory', ['Triceps'], 3, '10-15'),
+      ] },
+      { id: 'classic-back', name: 'Back & Biceps', exercises: [
+        ex('Deadlift', 'deadlift', ['Hamstrings', 'Glutes', 'Back'], 3, '3-5'),
+        ex('Barbell Row', 'row', ['Back', 'Biceps'], 4, '6-10'),
+        ex('Pull-Ups / Lat Pulldown', 'accessory', ['Back'], 3, '6-12'),
+        ex('Face Pulls', 'accessory', ['Rear Delts', 'Upper Back'], 3, '12-15'),
+        ex('Dumbbell Curls', 'accessory', ['Biceps'], 3, '10-15'),
+      ] },
+      { id: 'classic-legs', name: 'Legs', exercises: [
+        ex('Back Squat', 'squat', ['Quads', 'Glutes'], 4, '5-8'),
+        ex('Romanian Deadlift', 'accessory', ['Hamstrings', 'Glutes'], 3, '6-10'),
+        ex('Leg Press', 'accessory', ['Quads'], 3, '10-15'),
+        ex('Hamstring Curl', 'accessory', ['Hamstrings'], 3, '10-15'),
+        ex('Calf Raises', 'accessory', ['Calves'], 3, '12-20'),
+      ] },
+      { id: 'classic-arms', name: 'Arms', exercises: [
+        ex('Overhead Press', 'ohp', ['Shoulders', 'Triceps'], 4, '6-10'),
+        ex('Lateral Raises', 'accessory', ['Shoulders'], 3, '12-15'),
+        ex('Incline Dumbbell Curls', 'accessory', ['Biceps'], 3, '10-15'),
+        ex('Skull Crushers', 'accessory', ['Triceps'], 3, '8-12'),
+        ex('Hammer Curls', 'accessory', ['Biceps', 'Forearms'], 3, '10-15'),
+      ] },
+    ],
+  };
+})();
+
+// Each step takes a payload at version N and returns it at version N + 1.
+// Steps may throw; the caller quarantines the raw data instead of guessing.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {
+  // v1 -> v2: free-text reps strings become per-set logs
+  1: data => {
+    if (!Array.isArray(data.history)) throw new Error('history is not an array');
+    return { ...data, version: 2, history: (data.history as Session[]).map(normalizeSession) };
+  },
+  // v2 -> v3: per-lift progression strategy, defaulting to the RPE/e1RM engine
+  2: data => ({
+    ...data,
+    version: 3,
+    setup: isRecord(data.setup) ? { ...data.setup, progression: DEFAULT_PROGRESSION } : data.setup,
+  }),
+  // v3 -> v4: user-defined splits. Existing users get the old four-day rotation, now with deadlifts.
+  3: data => {
+    if (!Array.isArray(data.history)) throw new Error('history is not an array');
+    const classic = V4_CLASSIC_SPLIT;
+    return {
+      ...data,
+      version: 4,
+      setup: isRecord(data.setup) ? { ...data.setup, split: classic } : data.setup,
+      history: (data.history as Record<string, unknown>[]).map(h => ({
+        ...h,
+        dayId: classic.days.find(d => d.name === h.dayType)?.id,
+      })),
+    };
+  },
+  // v4 -> v5: exercises point at the catalog by stable ID; users start with a full gym
+  4: data => {
+    if (!Array.isArray(data.history)) throw new Error('history is not an array');
+    let setup = data.setup;
+    if (isRecord(setup) && isRecord(setup.split) && Array.isArray(setup.split.days)) {
+      const days = (setup.split.days as Record<string, unknown>[]).map(d => ({
+        ...d,
+        exercises: (d.exercises as { name: string; sets: number; reps: string }[])
+          .map(ex => ({ catalogId: findCatalogByName(ex.name)?.id, sets: ex.sets, reps: ex.reps }))
+          .filter(ex => ex.catalogId),
+      }));
+      setup = { ...setup, split: { ...setup.split, days }, equipment: ALL_EQUIPMENT };
+    }
+    return {
+      ...data,
+      version: 5,
+      setup,
+      history: (data.history as Session[]).map(h => ({
+        ...h,
+        workout: h.workout.map(ex => ({ ...ex, catalogId: catalogIdForName(ex.name) })),
+      })),
+    };
+  },
+  // v5 -> v6: unit preference and plate inventory; everyone so far has trained in pounds
+  5: data => ({
+    ...data,
+    version: 6,
+    setup: isRecord(data.setup) ? { ...data.setup, units: 'lb', plates: DEFAULT_PLATES.lb } : data.setup,
+  }),
+};
+
+function migrate(data: Record<string, unknown>): StoredState {
+  let version = typeof data.version === 'number' ? data.version : 1;
+  if (version > SCHEMA_VERSION) throw new Error(`saved with a newer app (schema v${version})`);
+  let current = data;
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`no migration from schema v${version}`);
+    current = step(current);
+    version += 1;
+  }
+  return current as StoredState;
+}
+
+// Shared by page load and backup restore: parse, migrate to the current schema, then validate.
+export function parseStoredState(raw: string): ParseResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (e) {
+    return { ok: false, reason: `not valid JSON (${(e as Error).message})` };
+  }
+  if (!isRecord(parsed)) return { ok: false, reason: 'top level is not an object' };
+
+  const fromVersion = typeof parsed.version === 'number' ? parsed.version : 1;
+  let migrated: StoredState;
+  try {
+    migrated = migrate(parsed);
+  } catch (e) {
+    return { ok: false, reason: `migration failed: ${(e as Error).message}` };
+  }
+
+  const errors = validateState(migrated);
+  if (errors.length > 0) {
+    const more = errors.length > 3 ? ` (+${errors.length - 3} more)` : '';
+    return { ok: false, reason: `${errors.slice(0, 3).join('; ')}${more}` };
+  }
+  return { ok: true, state: { setup: migrated.setup ?? null, history: newestFirst(migrated.history) }, fromVersion };
+}
+
+export function storedState(state: AppState): StoredState {
+  return { version: SCHEMA_VERSION, ...state };
+}
@@ -0,0 +1,140 @@
+import type { LiftKey, Session, Setup } from './types';
+import { fromLb } from './units';
+import { estimate1RMFrom5RM } from './progression';
+import { e1RMHistory, type SeriesPoint } from './analytics';
+import { LIFT_KEYS } from './schema';
+
+// Bodyweight over time and strength relative to it: bodyweight multiples, DOTS, Wilks and strength-standard tiers.
+
+export type ScoringSex = 'male' | 'female';
+
+export const STRENGTH_TIERS = ['Beginner', 'Novice', 'Intermediate', 'Advanced', 'Elite'] as const;
+export type StrengthTier = (typeof STRENGTH_TIERS)[number];
+
+export type LiftStrength = {
+  lift: LiftKey;
+  e1RMLb: number;
+  source: 'logged' | '5RM'; // latest logged e1RM, or the setup's 5RM when nothing is logged yet
+  multiple: number; // e1RM / bodyweight
+  tier?: StrengthTier;
+  next?: { tier: StrengthTier; e1RMLb: number }; // the e1RM that reaches the next tier
+};
+
+export type RelativeStrength = {
+  bodyweightLb: number;
+  sex?: ScoringSex; // absent when the setup's gender doesn't say; scores and tiers need it
+  lifts: LiftStrength[];
+  totalLb: number; // squat + bench + deadlift
+  dots?: number;
+  wilks?: number;
+};
+
+// The setup's gender is free text; the scoring formulas only know two sets of coefficients
+export function scoringSex(gender: string): ScoringSex | undefined {
+  const g = gender.trim().toLowerCase();
+  if (/^(m|male|man|men)$/.test(g)) return 'male';
+  if (/^(f|female|woman|women)$/.test(g)) return 'female';
+  return undefined;
+}
+
+// Every dated bodyweight: the log plus weights entered on sessions, oldest first
+export function bodyweightSeries(setup: Setup, history: Session[]): SeriesPoint[] {
+  const points = [
+    ...(setup.bodyweightLog ?? []).map(e => ({ t: Date.parse(e.dateISO), value: e.weightLb })),
+    ...history.flatMap(s => (s.bodyweightLb === undefined ? [] : [{ t: Date.parse(s.dateISO), value: s.bodyweightLb }])),
+  ];
+  return points.sort((a, b) => a.t - b.t);
+}
+
+// The latest weigh-in, or the weight entered in setup
+export function currentBodyweightLb(setup: Setup, history: Session[]) {
+  return bodyweightSeries(setup, history).at(-1)?.value ?? setup.weightLb;
+}
+
+// Bodyweight multiples at each tier for an 80 kg man or a 60 kg woman: Novice, Intermediate, Advanced, Elite.
+// Beginner is everything below Novice.
+const STANDARDS: Record<ScoringSex, { referenceKg: number; multiples: Record<LiftKey, number[]> }> = {
+  male: {
+    referenceKg: 80,
+    multiples: {
+      bench: [0.75, 1.25, 1.5, 2],
+      squat: [1, 1.5, 2, 2.5],
+      deadlift: [1.25, 1.75, 2.25, 3],
+      ohp: [0.5, 0.75, 1, 1.25],
+      row: [0.6, 0.9, 1.2, 1.5],
+    },
+  },
+  female: {
+    referenceKg: 60,
+    multiples: {
+      bench: [0.4, 0.65, 0.9, 1.2],
+      squat: [0.65, 1, 1.4, 1.8],
+      deadlift: [0.8, 1.2, 1.6, 2.2],
+      ohp: [0.3, 0.45, 0.6, 0.8],
+      row: [0.4, 0.6, 0.8, 1.05],
+    },
+  },
+};
+
+// Strength grows with roughly the 2/3 power of bodyweight, so lighter lifters need a larger multiple for the same tier
+function tierThresholdsLb(sex: ScoringSex, lift: LiftKey, bodyweightLb: number) {
+  const { referenceKg, multiples } = STANDARDS[sex];
+  const scale = Math.cbrt(referenceKg / fromLb(bodyweightLb, 'kg'));
+  return multiples[lift].map(m => m * scale * bodyweightLb);
+}
+
+const DOTS_COEFFICIENTS: Record<ScoringSex, { min: number; max: number; c: number[] }> = {
+  male: { min: 40, max: 210, c: [-307.75076, 24.0900756, -0.1918759221, 0.0007391293, -0.000001093] },
+  female: { min: 40, max: 150, c: [-57.96288, 13.6175032, -0.1126655495, 0.0005158568, -0.0000010706] },
+};
+
+// The 2009 Wilks formula
+const WILKS_COEFFICIENTS: Record<ScoringSex, { min: number; max: number; c: number[] }> = {
+  male: { min: 40, max: 201.9, c: [-216.0475144, 16.2606339, -0.002388645, -0.00113732, 7.01863e-6, -1.291e-8] },
+  female: { min: 26.51, max: 154.53, c: [594.31747775582, -27.23842536447, 0.82112226871, -0.00930733913, 4.731582e-5, -9.054e-8] },
+};
+
+// 500 / polynomial(bodyweight in kg) × total in kg, with bodyweight held to the range the formula was fitted on
+function polynomialScore({ min, max, c }: { min: number; max: number; c: number[] }, totalLb: number, bodyweightLb: number) {
+  const bw = Math.min(max, Math.max(min, fromLb(bodyweightLb, 'kg')));
+  const denominator = c.reduce((sum, k, i) => sum + k * bw ** i, 0);
+  return (fromLb(totalLb, 'kg') * 500) / denominator;
+}
+
+export function dotsScore(sex: ScoringSex, totalLb: number, bodyweightLb: number) {
+  return polynomialScore(DOTS_COEFFICIENTS[sex], totalLb, bodyweightLb);
+}
+
+export function wilksScore(sex: ScoringSex, totalLb: number, bodyweightLb: number) {
+  return polynomialScore(WILKS_COEFFICIENTS[sex], totalLb, bodyweightLb);
+}
+
+// Scores from each lift's current e1RM at the current bodyweight
+export function relativeStrength(setup: Setup, history: Session[]): RelativeStrength {
+  const bodyweightLb = currentBodyweightLb(setup, history);
+  const sex = scoringSex(setup.gender);
+  const series = e1RMHistory(history);
+
+  const lifts = LIFT_KEYS.map((lift): LiftStrength => {
+    const latest = series[lift].at(-1)?.value;
+    const e1RMLb = latest ?? estimate1RMFrom5RM(setup.fiveRM[lift] || 0);
+    const out: LiftStrength = { lift, e1RMLb, source: latest === undefined ? '5RM' : 'logged', multiple: e1RMLb / bodyweightLb };
+    if (!sex) return out;
+    const thresholds = tierThresholdsLb(sex, lift, bodyweightLb);
+    const reached = thresholds.filter(t => e1RMLb >= t).length;
+    out.tier = STRENGTH_TIERS[reached];
+    if (reached < thresholds.length) out.next = { tier: STRENGTH_TIERS[reached + 1], e1RMLb: thresholds[reached] };
+    return out;
+  });
+
+  const byLift = (k: LiftKey) => lifts.find(l => l.lift === k)!.e1RMLb;
+  const totalLb = byLift('squat') + byLift('bench') + byLift('deadlift');
+  return {
+    bodyweightLb,
+    sex,
+    lifts,
+    totalLb,
+    dots: sex && dotsScore(sex, totalLb, bodyweightLb),
+    wilks: sex && wilksScore(sex, totalLb, bodyweightLb),
+  };
+}
@@ -0,0 +1,225 @@
+// Data model shared by the page and the API routes. Weights are always stored in lb.
+
+export type LiftKey = 'bench' | 'squat' | 'deadlift' | 'ohp' | 'row';
+
+export type Setup = {
+  name?: string;
+  gender: string;
+  heightIn: number;
+  weightLb: number; // as entered in setup; the bodyweight log takes over once it has entries
+  goal: 'Hypertrophy' | 'Strength' | 'Health';
+  fiveRM: Record<LiftKey, number>; // lbs
+  progression: Record<LiftKey, ProgressionStrategyId>;
+  split: Split;
+  equipment: Equipment[]; // what the lifter has access to
+  units: Units; // display and input only; weights are stored in lb
+  plates: PlateConfig;
+  plan?: Mesocycle; // the training block being followed, if any
+  warmup?: WarmupScheme; // absent: the default ramp
+  bodyweightLog?: BodyweightEntry[]; // newest first
+  sessionMinutes?: number; // time budget for a session, one of SESSION_MINUTES; absent: 60
+  painFlags?: PainFlag[];
+  baselineLog?: BaselineChange[]; // newest first
+  retestEveryWeeks?: number; // one of RETEST_INTERVALS_WEEKS; absent: no retests scheduled
+};
+
+// A change to a lift's 5RM, kept so the baseline's history and the reasons for it can be shown
+export type BaselineChange = {
+  id: string;
+  dateISO: string;
+  lift: LiftKey;
+  fromLb?: number; // absent when the setup was first saved
+  toLb: number;
+  reason: string; // e.g. "Edited in setup" or "Retest: 100 kg × 7"
+  sessionId?: string; // the retest session it came from
+  recalculate?: boolean; // progression restarted from this baseline; earlier sessions no longer set the lift's loads
+};
+
+export type PainSeverity = 'mild' | 'moderate' | 'severe';
+
+// Something that hurts: a joint or muscle group, or one exercise marked painful in the Logger
+export type PainFlag = {
+  id: string;
+  area?: string; // a joint in PAIN_AREAS or a muscle group
+  side?: 'left' | 'right';
+  catalogId?: string; // set instead of `area` for one exercise
+  severity: PainSeverity;
+  startISO: string;
+  untilISO: string; // when it's expected to have settled; loads ease back to normal after that
+};
+
+export type BodyweightEntry = { dateISO: string; weightLb: number };
+
+export type Units = 'lb' | 'kg';
+
+export type PlateConfig = {
+  unit: Units; // bar and plates are labelled in this unit
+  barWeight: number;
+  plates: { weight: number; pairs: number }[];
+};
+
+export type Equipment = 'barbell' | 'rack' | 'bench' | 'dumbbell' | 'cable' | 'machine' | 'pullup-bar' | 'dip-station' | 'bands' | 'bodyweight';
+
+export type ProgressionStrategyId = 'rpe' | 'linear' | 'double' | 'wave531';
+
+// Which strategy produced an exercise's prescription, plus any state it needs next time
+export type ExerciseScheme = {
+  strategy: ProgressionStrategyId;
+  week?: number; // 5/3/1 week within the cycle, 1-4
+  trainingMaxLb?: number; // 5/3/1 training max for the cycle
+};
+
+// How a main lift's load was worked out, shown under "Why this workout?". Loads in lb.
+export type PrescriptionTrace = {
+  strategy: ProgressionStrategyId;
+  oneRepMaxLb?: number; // the 1RM estimate the load was derived from
+  oneRepMaxSource?: string; // e.g. "5RM of 275 lb"
+  trainingMaxLb?: number;
+  goalPercent?: number; // share of the training max, 0-1
+  previous?: { sessionId: string; dateISO: string; targetWeightLb?: number }; // the session progressed from
+  rule: string; // the progression rule that fired
+  clamp?: { minLb: number; maxLb: number; unclampedLb: number; applied: boolean };
+  adjustments?: string[]; // changes made after progression: deloads, block weeks, edits
+};
+
+export type Exercise = {
+  id: string;
+  catalogId: string; // CatalogExercise.id, or "custom:<name>" for exercises outside the catalog
+  name: string;
+  primary: LiftKey | 'accessory';
+  muscleGroups: string[];
+  sets: number;
+  reps: string; // e.g. "8-10"
+  targetWeightLb?: number;
+  notes?: string;
+  scheme?: ExerciseScheme;
+  warmups?: WarmupSet[]; // ramp-up before the working sets; main lifts only
+  trace?: PrescriptionTrace; // main lifts only
+  restSec?: number; // between working sets, from the goal; absent in sessions planned before that
+  painCap?: number; // share of the prescribed load allowed by a pain flag; progression skips capped lifts
+};
+
+// Warm-ups for the main lifts: the empty bar, then percentages of the working weight
+export type WarmupScheme = {
+  enabled: boolean;
+  barReps: number;
+  steps: { percent: number; reps: number }[]; // ascending
+};
+
+export type WarmupSet = { weightLb: number; reps: number };
+
+export type SetType = 'warmup' | 'working' | 'failure' | 'drop';
+
+export type SetLog = {
+  type: SetType;
+  weightLb?: number;
+  reps?: number;
+  rpe?: number; // 1-10
+  rir?: number; // reps in reserve
+};
+
+// An exercise as written in a split day, before the generator prescribes loads
+export type ExerciseTemplate = Pick<Exercise, 'catalogId' | 'sets' | 'reps'>;
+
+export type SplitDay = {
+  id: string;
+  name: string;
+  exercises: ExerciseTemplate[];
+};
+
+// Days are listed in rotation order
+export type Split = {
+  name: string;
+  days: SplitDay[];
+};
+
+export type ExerciseLog = {
+  exerciseId: string;
+  sets: SetLog[];
+  notes?: string;
+};
+
+export type Session = {
+  id: string;
+  dateISO: string;
+  dayId?: string; // SplitDay.id; absent for days that are no longer in the split
+  dayType: string; // day name at the time of the session
+  muscleGroups: string[];
+  energy: number; // 1-5
+  difficulty: number; // 1-5
+  sleepHours?: number;
+  bodyweightLb?: number; // weighed on the day
+  workout: Exercise[];
+  logs: ExerciseLog[];
+  startedAtISO?: string; // first set of live mode
+  durationSec?: number; // elapsed time, saved when leaving live mode
+  deload?: boolean; // reduced volume and intensity; ignored by progression
+  readiness?: Readiness; // as computed when the session was generated
+  plannedId?: string; // PlannedSession.id this session fulfils
+  timeBudgetMin?: number; // the budget the workout was fitted to
+  assignmentId?: string; // AssignedWorkout.id when a coach set this workout
+  retest?: boolean; // a 5RM test day: progression skips it, and its results are offered as new baselines
+};
+
+export type ReadinessFactor = {
+  label: string;
+  detail: string;
+  penalty: number; // points taken off the 100-point score
+};
+
+export type Readiness = {
+  score: number; // 0-100
+  factors: ReadinessFactor[];
+  deload: boolean;
+  deloadReason?: string;
+};
+
+export type AppState = { setup: Setup | null; history: Session[] };
+
+// A coach's workout for an athlete's next session, used instead of the planner's until it's started
+export type AssignedWorkout = {
+  id: string;
+  coach: string; // username
+  assignedAtISO: string;
+  dayName: string;
+  dayId?: string; // SplitDay.id it stands in for, if any
+  workout: Exercise[];
+  note?: string;
+};
+
+export type SessionComment = {
+  id: string;
+  sessionId: string; // Session.id, or AssignedWorkout.id for a workout not started yet
+  coach: string; // username
+  text: string;
+  createdAtISO: string;
+};
+
+// What coaches have written for an athlete. Stored apart from the athlete's own state so that
+// neither side's writes replace the other's.
+export type Coaching = {
+  assigned?: AssignedWorkout;
+  comments: SessionComment[]; // oldest first
+};
+
+// On-disk shape. `version` is absent in v1 payloads.
+export type StoredState = AppState & { version: number };
+
+// One slot in a mesocycle's calendar. What it prescribes is worked out when it's shown or started,
+// from the history at that point, so the rest of the block follows actual performance.
+export type PlannedSession = {
+  id: string;
+  dateISO: string;
+  week: number; // 1-based week of the block
+  dayId: string; // SplitDay.id
+  skipped?: boolean;
+};
+
+// A multi-week block: loading weeks that add volume, then a deload week
+export type Mesocycle = {
+  id: string;
+  startISO: string;
+  weeks: number; // 4-8, including the deload
+  trainingDays: number[]; // weekdays, 0 = Sunday
+  sessions: PlannedSession[]; // in date order
+};
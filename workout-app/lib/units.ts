@@ -0,0 +1,97 @@
+import type { PlateConfig, Setup, Units } from './types';
+
+// Unit conversion and plate math. Loads are stored in lb and only converted for display and input.
+
+const LB_PER_KG = 2.20462;
+
+export const DEFAULT_PLATES: Record<Units, PlateConfig> = {
+  lb: {
+    unit: 'lb',
+    barWeight: 45,
+    plates: [
+      { weight: 45, pairs: 4 }, { weight: 35, pairs: 1 }, { weight: 25, pairs: 2 },
+      { weight: 10, pairs: 2 }, { weight: 5, pairs: 2 }, { weight: 2.5, pairs: 2 },
+    ],
+  },
+  kg: {
+    unit: 'kg',
+    barWeight: 20,
+    plates: [
+      { weight: 25, pairs: 4 }, { weight: 20, pairs: 2 }, { weight: 15, pairs: 1 }, { weight: 10, pairs: 2 },
+      { weight: 5, pairs: 2 }, { weight: 2.5, pairs: 2 }, { weight: 1.25, pairs: 2 },
+    ],
+  },
+};
+
+export function fromLb(lb: number, units: Units) {
+  return units === 'kg' ? lb / LB_PER_KG : lb;
+}
+
+export function toLb(value: number, units: Units) {
+  return units === 'kg' ? value * LB_PER_KG : value;
+}
+
+// Value for a number input; two decimals hides the conversion noise
+export function displayWeight(lb: number, units: Units) {
+  return Math.round(fromLb(lb, units) * 100) / 100;
+}
+
+export function formatWeight(lb: number, units: Units) {
+  return `${Math.round(fromLb(lb, units) * 10) / 10} ${units}`;
+}
+
+const perSideCache = new Map<string, Map<number, number[]>>();
+
+// Every per-side load the inventory can make (in hundredths of the plate unit), each with the fewest plates
+function perSideLoads(config: PlateConfig) {
+  const key = JSON.stringify(config);
+  const cached = perSideCache.get(key);
+  if (cached) return cached;
+
+  const loads = new Map<number, number[]>([[0, []]]);
+  const sorted = [...config.plates].sort((a, b) => b.weight - a.weight);
+  for (const p of sorted) {
+    const w = Math.round(p.weight * 100);
+    if (w <= 0) continue;
+    for (let n = 0; n < p.pairs; n++) {
+      for (const [sum, plates] of Array.from(loads)) {
+        const existing = loads.get(sum + w);
+        if (!existing || existing.length > plates.length + 1) loads.set(sum + w, [...plates, p.weight]);
+      }
+    }
+  }
+  perSideCache.set(key, loads);
+  return loads;
+}
+
+// Nearest weight that can actually be loaded on the bar, in lb
+export function roundLoad(setup: Setup, lb: number) {
+  const { plates } = setup;
+  const target = fromLb(lb, plates.unit);
+  let best = plates.barWeight;
+  for (const sum of Array.from(perSideLoads(plates).keys())) {
+    const total = plates.barWeight + (2 * sum) / 100;
+    if (Math.abs(total - target) < Math.abs(best - target)) best = total;
+  }
+  return toLb(best, plates.unit);
+}
+
+// Smallest jump the plates allow: one pair of the lightest plate
+export function minLoadStepLb(setup: Setup) {
+  const weights = setup.plates.plates.filter(p => p.pairs > 0).map(p => p.weight);
+  return toLb(weights.length ? 2 * Math.min(...weights) : 5, setup.plates.unit);
+}
+
+// Plates per side for a barbell load; null when the inventory can't make it exactly
+function plateBreakdown(config: PlateConfig, lb: number): number[] | null {
+  const perSide = Math.round(((fromLb(lb, config.unit) - config.barWeight) / 2) * 100);
+  if (perSide < 0) return null;
+  return perSideLoads(config).get(perSide) ?? null;
+}
+
+export function describePlates(config: PlateConfig, lb: number) {
+  const plates = plateBreakdown(config, lb);
+  if (!plates) return 'Not loadable with your plates';
+  if (plates.length === 0) return `Empty bar (${config.barWeight} ${config.unit})`;
+  return `Per side: ${plates.join(' + ')}`;
+}
@@ -0,0 +1,57 @@
+import type { Session } from './types';
+
+// Small helpers with no domain knowledge.
+
+// Where ids get their randomness and timestamp. The simulator swaps in a seeded source and its own clock
+// so that a seed always produces the same history.
+export type IdSource = { random: () => number; now: () => number };
+
+let idSource: IdSource = { random: Math.random, now: Date.now };
+
+export function withIdSource<T>(source: IdSource, run: () => T): T {
+  const previous = idSource;
+  idSource = source;
+  try {
+    return run();
+  } finally {
+    idSource = previous;
+  }
+}
+
+export function uid(prefix = 'id') {
+  return `${prefix}_${idSource.random().toString(16).slice(2)}_${idSource.now()}`;
+}
+
+export function clamp(n: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, n));
+}
+
+export function formatDate(iso: string) {
+  const d = new Date(iso);
+  return d.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+export function chronological(history: Session[]) {
+  return [...history].sort((a, b) => a.dateISO.localeCompare(b.dateISO));
+}
+
+// The order history is kept in; backfilled and re-dated sessions slot into place
+export function newestFirst(history: Session[]) {
+  return [...history].sort((a, b) => b.dateISO.localeCompare(a.dateISO));
+}
+
+export const DAY_MS = 24 * 3600 * 1000;
+
+export function average(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : undefined;
+}
+
+export function median(xs: number[]) {
+  const sorted = [...xs].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function round1(x: number) {
+  return Math.round(x * 10) / 10;
+}
@@ -0,0 +1,57 @@
+import type { Exercise, Setup, WarmupScheme, WarmupSet } from './types';
+import { roundLoad, toLb } from './units';
+
+// Warm-up ramps for the main lifts. They are logged as 'warmup' sets, which volume, readiness
+// and progression all leave out.
+
+export const DEFAULT_WARMUP: WarmupScheme = {
+  enabled: true,
+  barReps: 10,
+  steps: [{ percent: 40, reps: 5 }, { percent: 60, reps: 3 }, { percent: 80, reps: 2 }],
+};
+
+export const WARMUP_PRESETS: Record<string, { name: string; steps: WarmupScheme['steps'] }> = {
+  standard: { name: 'Standard (40/60/80%)', steps: DEFAULT_WARMUP.steps },
+  short: { name: 'Short (50/75%)', steps: [{ percent: 50, reps: 5 }, { percent: 75, reps: 2 }] },
+  long: {
+    name: 'Long (30-90%)',
+    steps: [{ percent: 30, reps: 8 }, { percent: 45, reps: 5 }, { percent: 60, reps: 3 }, { percent: 75, reps: 2 }, { percent: 90, reps: 1 }],
+  },
+};
+
+// "40x5, 60x3, 80x2" <-> steps; null when the text doesn't parse
+export function formatWarmupSteps(steps: WarmupScheme['steps']) {
+  return steps.map(s => `${s.percent}x${s.reps}`).join(', ');
+}
+
+export function parseWarmupSteps(text: string): WarmupScheme['steps'] | null {
+  const steps = text.split(',').map(part => part.trim()).filter(Boolean).map(part => {
+    const m = part.match(/^(\d+(?:\.\d+)?)\s*%?\s*[x×]\s*(\d+)$/i);
+    return m ? { percent: Number(m[1]), reps: Number(m[2]) } : null;
+  });
+  if (steps.some(s => s === null || s.percent <= 0 || s.percent >= 100 || s.reps < 1)) return null;
+  return (steps as WarmupScheme['steps']).sort((a, b) => a.percent - b.percent);
+}
+
+// The ramp to `workingLb`: the empty bar, then each step rounded to a loadable weight.
+// Steps that round onto the previous weight or reach the working weight are dropped.
+export function warmupSets(setup: Setup, workingLb: number): WarmupSet[] {
+  const scheme = setup.warmup ?? DEFAULT_WARMUP;
+  const barLb = toLb(setup.plates.barWeight, setup.plates.unit);
+  if (!scheme.enabled || workingLb <= barLb) return [];
+  const sets: WarmupSet[] = [{ weightLb: barLb, reps: scheme.barReps }];
+  for (const step of scheme.steps) {
+    const weightLb = roundLoad(setup, (workingLb * step.percent) / 100);
+    if (weightLb <= sets[sets.length - 1].weightLb || weightLb >= workingLb) continue;
+    sets.push({ weightLb, reps: step.reps });
+  }
+  return sets;
+}
+
+// Attach (or refresh) the ramp for a main lift; other exercises go without
+export function withWarmups(setup: Setup, ex: Exercise): Exercise {
+  const { warmups, ...rest } = ex;
+  if (ex.primary === 'accessory' || ex.targetWeightLb === undefined) return warmups ? rest : ex;
+  const sets = warmupSets(setup, ex.targetWeightLb);
+  return sets.length ? { ...rest, warmups: sets } : rest;
+}
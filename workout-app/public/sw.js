@@ -0,0 +1,49 @@
+// Caches the app shell so Flex opens without a connection. Data never goes through here:
+// /api requests hit the network and the page queues writes itself while offline.
+const CACHE = 'flex-shell-v1';
+const SHELL = ['/', '/manifest.webmanifest', '/icon.svg'];
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(k => k !== CACHE).map(k => caches.delete(k))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirst(request, fallbackUrl) {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(fallbackUrl ?? request, response.clone());
+    return response;
+  } catch (e) {
+    const cached = await cache.match(fallbackUrl ?? request);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+// Build output under /_next/static is content-hashed, so a cached copy never goes stale
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method !== 'GET' || url.origin !== self.location.origin || url.pathname.startsWith('/api/')) return;
+
+  if (request.mode === 'navigate') event.respondWith(networkFirst(request, '/'));
+  else if (url.pathname.startsWith('/_next/static/')) event.respondWith(cacheFirst(request));
+  else event.respondWith(networkFirst(request));
+});